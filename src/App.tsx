@@ -1,9 +1,23 @@
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Canvas } from '@react-three/fiber'
-import { Scene } from './components/3d/Scene'
+import { Scene, type SceneHandle } from './components/3d/Scene'
 import { Header } from './components/layout/Header'
 import { Footer } from './components/layout/Footer'
-import type { ViewerState } from './types'
+import { CharmPalette } from './components/ui/CharmPalette'
+import { Controls } from './components/ui/Controls'
+import { DesignDiagnostics } from './components/ui/DesignDiagnostics'
+import { ModelLoadStatus } from './components/ui/ModelLoadStatus'
+import { DesignTools } from './components/ui/DesignTools'
+import { MaterialInfo } from './components/ui/MaterialInfo'
+import { QuotePanel } from './components/ui/QuotePanel'
+import { StillExport } from './components/ui/StillExport'
+import { useCatalog } from './hooks/useCatalog'
+import { useCharmDesigner } from './hooks/useCharmDesigner'
+import { useDesignHistory } from './hooks/useDesignHistory'
+import { useShareLink } from './hooks/useShareLink'
+import { validatePlacement } from './utils/placementRules'
+import { downloadBlob, toFileName, type StillExportOptions } from './utils/stillExport'
+import type { CameraView, Necklace, ShareLinkState, ViewerState } from './types'
 import './App.css'
 
 function App() {
@@ -15,7 +29,45 @@ function App() {
     lighting: 'studio',
     showPhysics: false,
     showAttachmentPoints: false,
+    editMode: false,
+    highlight: 'none',
   })
+  // A custom design opened from a share link, shown instead of the catalog
+  const [sharedDesign, setSharedDesign] = useState<Necklace | null>(null)
+  const [linkedCamera, setLinkedCamera] = useState<CameraView | null>(null)
+  const sceneRef = useRef<SceneHandle>(null)
+  const { catalog } = useCatalog()
+  const editing = viewerState.editMode && Boolean(catalog)
+
+  // Open on the first featured piece until something else is picked
+  const selectedNecklaceId = viewerState.selectedNecklaceId ?? catalog?.featured[0] ?? catalog?.necklaces[0]?.id ?? null
+  const catalogNecklace = catalog?.necklaces.find(necklace => necklace.id === selectedNecklaceId)
+  const sourceNecklace = sharedDesign ?? catalogNecklace
+
+  // Each piece opens in the lighting it was authored for; the Lighting control
+  // (or a share link) overrides it
+  const lightingAppliedFor = useRef<string | null>(null)
+  const authoredLighting = sourceNecklace?.displaySettings.lighting
+  useEffect(() => {
+    if (!authoredLighting || lightingAppliedFor.current === selectedNecklaceId) return
+    lightingAppliedFor.current = selectedNecklaceId
+    setViewerState(prev => ({ ...prev, lighting: authoredLighting }))
+  }, [selectedNecklaceId, authoredLighting])
+
+  const { share } = useShareLink(useCallback((link: ShareLinkState) => {
+    const necklaceId = link.design?.id ?? link.necklaceId
+    lightingAppliedFor.current = necklaceId
+    setSharedDesign(link.design ?? null)
+    setViewerState(prev => ({ ...prev, ...link.viewer, selectedNecklaceId: necklaceId ?? prev.selectedNecklaceId }))
+    setLinkedCamera(link.camera ?? null)
+  }, []))
+
+  // Every design edit goes through the history so it can be undone
+  const history = useDesignHistory(sourceNecklace, { shortcuts: editing, persist: !sharedDesign })
+  const selectedNecklace = history.necklace
+  const diagnostics = useMemo(() => (selectedNecklace ? validatePlacement(selectedNecklace) : []), [selectedNecklace])
+
+  const designer = useCharmDesigner(selectedNecklace, history.execute)
 
   const handleCharmClick = (charmId: string) => {
     setViewerState(prev => ({
@@ -29,13 +81,49 @@ function App() {
     console.log('Charm hovered:', charmId)
   }
 
+  const handleViewerChange = (changes: Partial<ViewerState>) => {
+    if (changes.selectedNecklaceId !== undefined) {
+      setSharedDesign(null)
+    }
+    setViewerState(prev => ({
+      ...prev,
+      ...changes
+    }))
+  }
+
+  // Catalog pieces go by ID; edited and shared designs travel inline
+  const handleShare = () => share({
+    necklaceId: selectedNecklaceId,
+    design: sharedDesign || selectedNecklace !== catalogNecklace ? selectedNecklace : undefined,
+    viewer: viewerState,
+    camera: sceneRef.current?.getCameraView(),
+  })
+
+  const handleExportStills = async (options: StillExportOptions, allAngles: boolean) => {
+    const scene = sceneRef.current
+    if (!scene) return
+    const name = toFileName(selectedNecklace?.name ?? 'necklace')
+    if (allAngles) {
+      downloadBlob(await scene.exportPresetStills(name, options), `${name}-stills.zip`)
+    } else {
+      downloadBlob(await scene.exportStill(options), `${name}-${options.width}x${options.height}.png`)
+    }
+  }
+
+  const handleExportModel = async () => {
+    const scene = sceneRef.current
+    if (!scene) return
+    const glb = await scene.exportGLB()
+    downloadBlob(new Blob([glb], { type: 'model/gltf-binary' }), `${toFileName(selectedNecklace?.name ?? 'necklace')}.glb`)
+  }
+
   return (
     <div className="app">
       {/* Header */}
       <Header />
 
       {/* 3D Scene Container */}
-      <div className="scene-container">
+      <div className={`scene-container${designer.drag ? ' dragging' : ''}`}>
         <Canvas
           shadows
           camera={{ position: [3, 3, 3], fov: 60 }}
@@ -44,11 +132,33 @@ function App() {
           gl={{ antialias: true }}
         >
           <Scene
-            viewerState={viewerState}
+            selectedNecklace={selectedNecklace}
+            viewerState={{ ...viewerState, selectedNecklaceId }}
+            cameraView={linkedCamera}
+            sceneRef={sceneRef}
             onCharmClick={handleCharmClick}
             onCharmHover={handleCharmHover}
+            designer={editing ? designer : undefined}
           />
         </Canvas>
+
+        <Controls
+          viewerState={{ ...viewerState, selectedNecklaceId }}
+          collections={catalog?.collections}
+          onChange={handleViewerChange}
+          onShare={handleShare}
+        />
+        {editing && catalog && <CharmPalette charms={catalog.charms} designer={designer} />}
+        {selectedNecklace && (
+          <div className="side-panels">
+            {editing && <DesignTools necklace={selectedNecklace} history={history} />}
+            <MaterialInfo necklace={selectedNecklace} selectedCharmId={viewerState.selectedCharmId} />
+            <QuotePanel necklace={selectedNecklace} />
+            <StillExport onExport={handleExportStills} onExportModel={handleExportModel} />
+          </div>
+        )}
+        <DesignDiagnostics diagnostics={diagnostics} />
+        <ModelLoadStatus />
       </div>
 
       {/* Footer */}
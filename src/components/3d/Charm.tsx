@@ -1,9 +1,15 @@
-import React, { useRef, useMemo, Suspense } from 'react'
+import React, { useCallback, useEffect, useRef, useMemo, useState } from 'react'
 import { useFrame, type ThreeEvent } from '@react-three/fiber'
-import { useGLTF } from '@react-three/drei'
 import * as THREE from 'three'
-import { createFallbackCharm } from '../../utils/modelFallbacks'
-import type { Charm as CharmType } from '../../types'
+import { ModelErrorBoundary } from './ModelErrorBoundary'
+import { useNecklaceLoader } from '../../hooks/useNecklaceLoader'
+import { useLevelOfDetail } from '../../hooks/useLevelOfDetail'
+import { GEMSTONE_LOD_DISTANCES, MODEL_LOD_DISTANCES, isShownAtLevel } from '../../utils/levelOfDetail'
+import { createFallbackCharm, createFallbackGLTF } from '../../utils/modelFallbacks'
+import { getMaterialDensity } from '../../utils/weightEstimation'
+import { materialRegistry } from '../../utils/materialRegistry'
+import type { ModelAsset } from '../../utils/modelLoader'
+import type { Charm as CharmType, MaterialEffect } from '../../types'
 
 export interface CharmProps {
   charm: CharmType
@@ -11,60 +17,118 @@ export interface CharmProps {
   rotation?: THREE.Euler
   scale?: number
   animate?: boolean
+  materialEffect?: MaterialEffect // Animated highlight over the charm's material
   onClick?: (charm: CharmType) => void
   onHover?: (charm: CharmType | null) => void
+  onModelLoad?: (charmId: string, model: THREE.Object3D | null) => void // For weighing the loaded model
 }
 
-// Loading fallback component
-const CharmFallback: React.FC<{ charm: CharmType; materialElement: React.ReactElement }> = ({ charm, materialElement }) => {
-  const fallbackGeometry = useMemo(() => {
-    return createFallbackCharm(charm.type)
-  }, [charm.type])
+// Stand-in shown while the model loads, or if it can't be
+const CharmFallback: React.FC<{
+  model: ModelAsset
+  getMaterial: (geometry: THREE.BufferGeometry) => THREE.Material
+  level?: number // Detail level for stand-ins with simpler parts
+}> = ({ model, getMaterial, level = 0 }) => {
+  const fallbackGeometry = model.scene
 
   return (
-    <primitive object={fallbackGeometry}>
+    <group>
       {/* Apply material to all meshes in the fallback geometry */}
       {fallbackGeometry.children.map((child, index) => {
         if (child instanceof THREE.Mesh) {
           return (
-            <mesh key={index} geometry={child.geometry} position={child.position} rotation={child.rotation}>
-              {materialElement}
-            </mesh>
+            <mesh
+              key={index}
+              geometry={child.geometry}
+              position={child.position}
+              rotation={child.rotation}
+              material={getMaterial(child.geometry)}
+              visible={isShownAtLevel(child, level)}
+              userData={child.userData}
+            />
           )
         }
         return null
       })}
-    </primitive>
+    </group>
   )
 }
 
+const NO_LOD: number[] = []
+
+// Reports the loaded model while it's mounted
+const ModelLoadReporter: React.FC<{
+  charmId: string
+  object: THREE.Object3D
+  onModelLoad?: CharmProps['onModelLoad']
+}> = ({ charmId, object, onModelLoad }) => {
+  useEffect(() => {
+    onModelLoad?.(charmId, object)
+    return () => onModelLoad?.(charmId, null)
+  }, [charmId, object, onModelLoad])
+
+  return null
+}
+
 // GLTF Model component
-const CharmModel: React.FC<{ modelPath: string; materialElement: React.ReactElement; charm: CharmType }> = ({ 
+const CharmModel: React.FC<{
+  modelPath: string
+  lodModelPaths?: string[]
+  level: number // Picks the LOD variant
+  fallback: ModelAsset
+  fallbackLevel: number
+  getMaterial: (geometry: THREE.BufferGeometry) => THREE.Material
+  charm: CharmType
+  onModelLoad?: CharmProps['onModelLoad']
+}> = ({ 
   modelPath, 
-  materialElement, 
-  charm 
+  lodModelPaths,
+  level,
+  fallback,
+  fallbackLevel,
+  getMaterial,
+  charm,
+  onModelLoad,
 }) => {
-  try {
-    const { scene } = useGLTF(modelPath)
-    
-    // Clone the scene to avoid modifying the original
-    const clonedScene = useMemo(() => scene.clone(), [scene])
-    
-    // Apply materials to all meshes in the loaded model
-    useMemo(() => {
-      clonedScene.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          // Store original material for potential restoration
-          child.userData.originalMaterial = child.material
-        }
-      })
-    }, [clonedScene])
+  const { model, isFallback, variant } = useNecklaceLoader(modelPath, fallback, lodModelPaths, level)
 
-    return <primitive object={clonedScene} />
-  } catch (error) {
-    console.warn(`Failed to load model ${modelPath}, using fallback`, error)
-    return <CharmFallback charm={charm} materialElement={materialElement} />
+  // Clone the scene to avoid modifying the original
+  const clonedScene = useMemo(() => {
+    if (isFallback) return null
+    const clone = model.scene.clone()
+    clone.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        // Store original material for potential restoration
+        child.userData.originalMaterial = child.material
+      }
+    })
+    return clone
+  }, [model, isFallback])
+
+  // Loaded models render in the charm's material too, like the stand-ins
+  useMemo(() => {
+    clonedScene?.traverse((child) => {
+      if (child instanceof THREE.Mesh) child.material = getMaterial(child.geometry)
+    })
+  }, [clonedScene, getMaterial])
+
+  // Weighed at full detail only, and kept while coarser variants show, so
+  // switching variants doesn't change the drape
+  const [weighedModel, setWeighedModel] = useState<THREE.Object3D | null>(null)
+  useEffect(() => {
+    if (variant === 0 && clonedScene) setWeighedModel(clonedScene)
+  }, [variant, clonedScene])
+
+  if (!clonedScene) {
+    return <CharmFallback model={model} getMaterial={getMaterial} level={fallbackLevel} />
   }
+
+  return (
+    <>
+      <primitive object={clonedScene} />
+      {weighedModel && <ModelLoadReporter charmId={charm.id} object={weighedModel} onModelLoad={onModelLoad} />}
+    </>
+  )
 }
 
 export const Charm: React.FC<CharmProps> = ({
@@ -73,63 +137,40 @@ export const Charm: React.FC<CharmProps> = ({
   rotation = new THREE.Euler(0, 0, 0),
   scale = 1,
   animate = false,
+  materialEffect,
   onClick,
   onHover,
+  onModelLoad,
 }) => {
   const meshRef = useRef<THREE.Group>(null)
   const time = useRef(0)
 
-  // Enhanced material is available via JewelryMaterials.createMaterial(charm.material) if needed for Three.js objects
+  // Gems trace light through their own facets; anything else shares the
+  // material of everything made of it, chains included
+  const getMaterial = useCallback(() => (
+    charm.material.type === 'gemstone'
+      ? materialRegistry.getGemstoneMaterial(charm.material)
+      : materialRegistry.getRenderMaterial(charm.material, materialEffect)
+  ), [charm.material, materialEffect])
 
-  // Create JSX element for the material (for fallback geometry)
-  const materialElement = useMemo(() => {
-    const mat = charm.material
-    
-    switch (mat.type) {
-      case 'metal':
-        return (
-          <meshStandardMaterial
-            color={mat.color}
-            metalness={mat.metallic || 1}
-            roughness={mat.roughness || 0.1}
-            envMapIntensity={1.5}
-          />
-        )
-      case 'gemstone':
-        return (
-          <meshPhysicalMaterial
-            color={mat.color}
-            metalness={0}
-            roughness={mat.roughness || 0.02}
-            transmission={mat.transparency || 0.95}
-            ior={mat.refraction || 1.5}
-            thickness={0.8}
-            clearcoat={1.0}
-            clearcoatRoughness={0.02}
-            envMapIntensity={2.0}
-          />
-        )
-      case 'pearl':
-        return (
-          <meshStandardMaterial
-            color={mat.color}
-            metalness={0.1}
-            roughness={0.2}
-            envMapIntensity={1.8}
-            transparent={true}
-            opacity={0.95}
-          />
-        )
-      default:
-        return (
-          <meshStandardMaterial
-            color={mat.color}
-            metalness={mat.metallic || 0}
-            roughness={mat.roughness || 0.5}
-          />
-        )
-    }
-  }, [charm.material])
+  // Cut stones are sized from their carats, so they change with the material too
+  const density = getMaterialDensity(charm.material)
+  const fallbackModel = useMemo(
+    () => createFallbackGLTF(createFallbackCharm(charm.type, charm.gem, density)),
+    [charm.type, charm.gem, density]
+  )
+  // Replaced stand-ins free their geometry, and with it a stone's baked cubemap
+  useEffect(() => () => {
+    fallbackModel.scene.traverse((child) => {
+      if (child instanceof THREE.Mesh) child.geometry.dispose()
+    })
+  }, [fallbackModel])
+
+  // Nearby charms get the most detail: LOD variants of loaded models, faceted stand-ins for gems
+  const modelLodDistances = useMemo(() => MODEL_LOD_DISTANCES.slice(0, charm.lodModelPaths?.length ?? 0), [charm.lodModelPaths])
+  const fallbackLodDistances = charm.type === 'gemstone' || charm.gem ? GEMSTONE_LOD_DISTANCES : NO_LOD
+  const modelLevel = useLevelOfDetail(meshRef, modelLodDistances)
+  const fallbackLevel = useLevelOfDetail(meshRef, fallbackLodDistances)
 
   // Animation frame update
   useFrame((_state, delta) => {
@@ -138,7 +179,7 @@ export const Charm: React.FC<CharmProps> = ({
     time.current += delta
     
     // Gentle swaying motion for charms
-    const swayAmount = 0.02 * charm.weight // Heavier charms sway less
+    const swayAmount = 0.1 / Math.sqrt(1 + charm.weight) // Heavier charms sway less
     meshRef.current.rotation.z = Math.sin(time.current * 2) * swayAmount
     
     // Small bounce effect
@@ -173,9 +214,21 @@ export const Charm: React.FC<CharmProps> = ({
       onPointerEnter={handlePointerEnter}
       onPointerLeave={handlePointerLeave}
     >
-              <Suspense fallback={<CharmFallback charm={charm} materialElement={materialElement} />}>
-          <CharmModel modelPath={charm.modelPath} materialElement={materialElement} charm={charm} />
-        </Suspense>
+      <ModelErrorBoundary
+        resetKey={charm.modelPath}
+        fallback={<CharmFallback model={fallbackModel} getMaterial={getMaterial} level={fallbackLevel} />}
+      >
+        <CharmModel
+          modelPath={charm.modelPath}
+          lodModelPaths={charm.lodModelPaths}
+          level={modelLevel}
+          fallback={fallbackModel}
+          fallbackLevel={fallbackLevel}
+          getMaterial={getMaterial}
+          charm={charm}
+          onModelLoad={onModelLoad}
+        />
+      </ModelErrorBoundary>
       
       {/* Add a subtle glow effect for rare charms */}
       {charm.metadata?.rarity === 'legendary' && (
@@ -1,34 +1,53 @@
-import React from 'react'
+import React, { Suspense, useEffect, useLayoutEffect, useMemo } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
 import { Environment, ContactShadows, AccumulativeShadows, RandomizedLight } from '@react-three/drei'
+import * as THREE from 'three'
+import { useCrossfade } from '../../hooks/useCrossfade'
+import { EnvironmentBlender } from '../../utils/environmentBlend'
+import type { LightingPreset } from '../../types'
 
 export interface EnvironmentProps {
-  preset?: 'studio' | 'natural' | 'dramatic' | 'soft' | 'jewelry-studio'
+  preset?: LightingPreset
   background?: boolean
   blur?: number
-  intensity?: number
+  intensity?: number // Scales reflections and the background
+  transitionDuration?: number // Seconds to crossfade environment maps when the preset changes
+  resolution?: number // Of the blended cube map
 }
 
-export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
-  preset = 'jewelry-studio',
-  background = true,
-  blur = 0.3,
-  intensity: _intensity = 1, // Intensity handled per environment type
-}) => {
+const PRESETS: LightingPreset[] = ['studio', 'natural', 'dramatic', 'soft', 'jewelry-studio']
+
+// Background blur relative to the blur prop
+const BLUR_SCALE: Record<LightingPreset, number> = {
+  'studio': 1,
+  'natural': 1,
+  'dramatic': 0.5,
+  'soft': 2,
+  'jewelry-studio': 1,
+}
+
+interface EnvironmentLayerProps {
+  preset: LightingPreset
+  scene: THREE.Scene // Receives the preset's environment map for blending
+  weight: number // Fades the preset's shadows
+}
+
+// One preset's environment map and ground shadows
+const EnvironmentLayer: React.FC<EnvironmentLayerProps> = ({ preset, scene, weight }) => {
   
   const renderStudioEnvironment = () => (
     <>
       {/* Professional jewelry studio HDRI environment */}
       <Environment
-        background={background}
-        blur={blur}
+        scene={scene}
         resolution={512}
         preset="studio"
       />
       
       {/* High-quality contact shadows */}
       <ContactShadows
-        position={[0, -3, 0]}
-        opacity={0.6}
+        position={[0, -2.99, 0]}
+        opacity={0.6 * weight}
         scale={20}
         blur={2}
         far={3}
@@ -43,7 +62,7 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
         alphaTest={0.9}
         color="#316d39"
         colorBlend={0.5}
-        opacity={0.8}
+        opacity={0.8 * weight}
         scale={20}
       >
         <RandomizedLight
@@ -62,8 +81,7 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
     <>
       {/* Custom jewelry studio setup with optimal lighting */}
       <Environment
-        background={background}
-        blur={blur}
+        scene={scene}
         resolution={1024}
       >
         {/* Custom HDRI-like lighting setup using lights */}
@@ -110,8 +128,8 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
 
       {/* Professional jewelry shadows */}
       <ContactShadows
-        position={[0, -3, 0]}
-        opacity={0.4}
+        position={[0, -2.99, 0]}
+        opacity={0.4 * weight}
         scale={25}
         blur={3}
         far={4}
@@ -125,16 +143,15 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
     <>
       {/* Natural daylight environment */}
       <Environment
-        background={background}
-        blur={blur}
+        scene={scene}
         resolution={256}
         preset="dawn"
       />
       
       {/* Soft natural shadows */}
       <ContactShadows
-        position={[0, -3, 0]}
-        opacity={0.3}
+        position={[0, -2.99, 0]}
+        opacity={0.3 * weight}
         scale={15}
         blur={4}
         far={2}
@@ -148,16 +165,15 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
     <>
       {/* Dramatic lighting environment */}
       <Environment
-        background={background}
-        blur={blur * 0.5}
+        scene={scene}
         resolution={256}
         preset="night"
       />
       
       {/* Sharp dramatic shadows */}
       <ContactShadows
-        position={[0, -3, 0]}
-        opacity={0.8}
+        position={[0, -2.99, 0]}
+        opacity={0.8 * weight}
         scale={12}
         blur={1}
         far={2}
@@ -171,16 +187,15 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
     <>
       {/* Soft diffused environment */}
       <Environment
-        background={background}
-        blur={blur * 2}
+        scene={scene}
         resolution={256}
         preset="warehouse"
       />
       
       {/* Very soft shadows */}
       <ContactShadows
-        position={[0, -3, 0]}
-        opacity={0.2}
+        position={[0, -2.99, 0]}
+        opacity={0.2 * weight}
         scale={30}
         blur={6}
         far={3}
@@ -207,4 +222,84 @@ export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
   }
 
   return <>{renderEnvironment()}</>
-} 
\ No newline at end of file
+}
+
+// Puts the weighted mix of the layers' environment maps on the scene
+const EnvironmentBlend: React.FC<{
+  layers: Array<{ scene: THREE.Scene; weight: number }>
+  background: boolean
+  blur: number
+  intensity: number
+  resolution: number
+}> = ({ layers, background, blur, intensity, resolution }) => {
+  const gl = useThree(state => state.gl)
+  const scene = useThree(state => state.scene)
+  const blender = useMemo(() => new EnvironmentBlender(resolution), [resolution])
+
+  useEffect(() => () => blender.dispose(), [blender])
+
+  useLayoutEffect(() => {
+    const previous = {
+      environment: scene.environment,
+      environmentIntensity: scene.environmentIntensity,
+      background: scene.background,
+      backgroundBlurriness: scene.backgroundBlurriness,
+      backgroundIntensity: scene.backgroundIntensity,
+    }
+    scene.environment = blender.texture
+    scene.environmentIntensity = intensity
+    if (background) {
+      scene.background = blender.texture
+      scene.backgroundBlurriness = blur
+      scene.backgroundIntensity = intensity
+    }
+    return () => {
+      Object.assign(scene, previous)
+    }
+  }, [scene, blender, background, blur, intensity])
+
+  // Layers finish loading in their own time, so check every frame; this
+  // only draws when a map or weight has changed
+  useFrame(() => {
+    blender.update(gl, layers.map(({ scene, weight }) => ({ texture: scene.environment, weight })))
+  })
+
+  return null
+}
+
+export const JewelryEnvironment: React.FC<EnvironmentProps> = ({
+  preset = 'jewelry-studio',
+  background = true,
+  blur = 0.3,
+  intensity = 1,
+  transitionDuration = 0.8,
+  resolution = 512,
+}) => {
+  const layers = useCrossfade(preset, transitionDuration)
+
+  // Each preset renders its map into its own scene rather than the real one
+  const layerScenes = useMemo(() => {
+    return Object.fromEntries(PRESETS.map(name => [name, new THREE.Scene()])) as Record<LightingPreset, THREE.Scene>
+  }, [])
+
+  const blendLayers = layers.map(({ value, weight }) => ({ scene: layerScenes[value], weight }))
+  const blendedBlur = layers.reduce((sum, { value, weight }) => sum + blur * BLUR_SCALE[value] * weight, 0)
+
+  return (
+    <>
+      {layers.map(({ value, weight }) => (
+        // Presets download their maps; keep the current one showing meanwhile
+        <Suspense key={value} fallback={null}>
+          <EnvironmentLayer preset={value} scene={layerScenes[value]} weight={weight} />
+        </Suspense>
+      ))}
+      <EnvironmentBlend
+        layers={blendLayers}
+        background={background}
+        blur={blendedBlur}
+        intensity={intensity}
+        resolution={resolution}
+      />
+    </>
+  )
+}
@@ -1,12 +1,16 @@
 import React from 'react'
+import { useCrossfade } from '../../hooks/useCrossfade'
+import type { LightingPreset } from '../../types'
 
 export interface LightingProps {
-  preset?: 'studio' | 'natural' | 'dramatic' | 'soft' | 'jewelry-studio'
+  preset?: LightingPreset
   intensity?: number
   enableShadows?: boolean
+  transitionDuration?: number // Seconds to crossfade light intensities when the preset changes
 }
 
-export const Lighting: React.FC<LightingProps> = ({ 
+// The lights of one preset, all scaled by intensity
+const LightingRig: React.FC<Omit<LightingProps, 'transitionDuration'>> = ({ 
   preset = 'jewelry-studio', 
   intensity = 1,
   enableShadows = true
@@ -225,4 +229,21 @@ export const Lighting: React.FC<LightingProps> = ({
   }
 
   return <>{renderLighting()}</>
-} 
\ No newline at end of file
+}
+
+export const Lighting: React.FC<LightingProps> = ({
+  preset = 'jewelry-studio',
+  intensity = 1,
+  enableShadows = true,
+  transitionDuration = 0.8,
+}) => {
+  const layers = useCrossfade(preset, transitionDuration)
+
+  return (
+    <>
+      {layers.map(({ value, weight }) => (
+        <LightingRig key={value} preset={value} intensity={intensity * weight} enableShadows={enableShadows} />
+      ))}
+    </>
+  )
+}
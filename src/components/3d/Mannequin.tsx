@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react'
+import { getMannequinGeometry, MANNEQUIN_PARTS } from '../../utils/mannequin'
+
+export interface MannequinProps {
+  color?: string
+  roughness?: number
+}
+
+// Velvet display bust; its shape matches the colliders the chain rests on
+export const Mannequin: React.FC<MannequinProps> = ({
+  color = '#2b2b30',
+  roughness = 0.95,
+}) => {
+  const parts = useMemo(() => {
+    return MANNEQUIN_PARTS.map((part) => ({
+      ...part,
+      geometry: getMannequinGeometry(part),
+    }))
+  }, [])
+
+  return (
+    <group>
+      {parts.map((part) => (
+        <mesh
+          key={part.name}
+          geometry={part.geometry}
+          position={part.options.position}
+          rotation={part.options.rotation}
+          castShadow
+          receiveShadow
+        >
+          <meshStandardMaterial color={color} roughness={roughness} metalness={0} />
+        </mesh>
+      ))}
+    </group>
+  )
+}
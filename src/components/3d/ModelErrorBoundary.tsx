@@ -0,0 +1,35 @@
+import React from 'react'
+
+export interface ModelErrorBoundaryProps {
+  fallback: React.ReactNode
+  resetKey?: unknown // Try the children again when this changes, e.g. the model path
+  children?: React.ReactNode
+}
+
+interface ModelErrorBoundaryState {
+  error: Error | null
+}
+
+// Shows the fallback instead of a model that fails to render, so one bad
+// file never takes the rest of the scene down with it
+export class ModelErrorBoundary extends React.Component<ModelErrorBoundaryProps, ModelErrorBoundaryState> {
+  state: ModelErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): ModelErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error) {
+    console.warn('Model failed to render, using fallback', error)
+  }
+
+  componentDidUpdate(previous: ModelErrorBoundaryProps) {
+    if (this.state.error && previous.resetKey !== this.props.resetKey) {
+      this.setState({ error: null })
+    }
+  }
+
+  render() {
+    return this.state.error ? this.props.fallback : this.props.children
+  }
+}
@@ -1,183 +1,418 @@
-import React, { useMemo, Suspense } from 'react'
-import { useGLTF } from '@react-three/drei'
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
 import * as THREE from 'three'
 import { Charm } from './Charm'
-import { createFallbackNecklace } from '../../utils/modelFallbacks'
-import type { Necklace as NecklaceType } from '../../types'
+import { ModelErrorBoundary } from './ModelErrorBoundary'
+import { PhysicsDebug } from './PhysicsDebug'
+import { useChainPhysics, useSimulationFrame } from '../../hooks/useChainPhysics'
+import { useNecklaceLoader } from '../../hooks/useNecklaceLoader'
+import { useLevelOfDetail } from '../../hooks/useLevelOfDetail'
+import { CHAIN_LOD_DISTANCES, MODEL_LOD_DISTANCES, isShownAtLevel } from '../../utils/levelOfDetail'
+import { createFallbackGLTF, createFallbackNecklace, createFlatNecklacePath, layoutFallbackNecklace } from '../../utils/modelFallbacks'
+import { createPathFrames, extractNecklacePath, getPathFrame, resolveAttachmentParameters } from '../../utils/necklacePath'
+import { FLAT_LAY_CHARM_ROTATION, getDisplayModeSimulationOptions } from '../../utils/displayModes'
+import { estimateBaseWeight, estimateCharmWeight } from '../../utils/weightEstimation'
+import { HIDE_IN_EXPORT } from '../../utils/stillExport'
+import { exportNecklaceGLB } from '../../utils/glbExport'
+import { materialRegistry } from '../../utils/materialRegistry'
+import type { ModelAsset } from '../../utils/modelLoader'
+import type { ChainSimulation } from '../../utils/physics'
+import type { MaterialEffect, Necklace as NecklaceType, ViewerState } from '../../types'
 
 export interface NecklaceProps {
   necklace: NecklaceType
+  displayMode?: ViewerState['displayMode']
   showAttachmentPoints?: boolean
+  showPhysics?: boolean
   animateCharms?: boolean
+  materialEffect?: MaterialEffect // Animated highlight on the chain and every charm
   onCharmClick?: (charmId: string) => void
   onCharmHover?: (charmId: string | null) => void
+  // Designer: attachment point ID -> accepts the charm being dragged, while a drag is in progress
+  dropTargets?: Record<string, boolean> | null
+  onAttachmentPointDrop?: (attachmentPointId: string) => void
+  onCharmDragStart?: (charmIndex: number) => void
+  exportRef?: React.Ref<NecklaceExportHandle>
 }
 
-// Fallback necklace component
+export interface NecklaceExportHandle {
+  exportGLB: () => Promise<ArrayBuffer> // The necklace as designed, as binary glTF
+}
+
+// Drop target spheres grow so they're easy to hit while dragging
+const DROP_TARGET_SCALE = 5
+
+// Procedural necklace shown while the model loads, or if it can't be
 const NecklaceFallback: React.FC<{ 
-  base: NecklaceType['base'] 
-  material: React.ReactElement 
-}> = ({ base, material }) => {
-  const fallbackGeometry = useMemo(() => {
-    return createFallbackNecklace(base.type, base.length)
-  }, [base.type, base.length])
+  model: ModelAsset
+  material: THREE.Material
+  simulation: ChainSimulation
+}> = ({ model, material, simulation }) => {
+  const group = useRef<THREE.Group>(null)
+  const fallbackParts = useMemo(() => {
+    // Keep our own list so the parts can be re-parented without losing track of them
+    return [...model.scene.children]
+  }, [model])
+
+  // Chains swap to simpler links, then a plain tube, with distance
+  const level = useLevelOfDetail(group, CHAIN_LOD_DISTANCES)
+
+  // Follow the simulated chain whenever it moves; hidden levels wait until they're shown
+  const invalidateLayout = useSimulationFrame(simulation, (sim) => {
+    layoutFallbackNecklace(fallbackParts.filter((part) => isShownAtLevel(part, level)), sim.getCurve())
+  })
+  useEffect(invalidateLayout, [level, invalidateLayout])
 
   return (
-    <primitive object={fallbackGeometry}>
+    <group ref={group}>
       {/* Apply material to all meshes in the fallback geometry */}
-      {fallbackGeometry.children.map((child, index) => {
+      {fallbackParts.map((child, index) => {
         if (child instanceof THREE.Mesh) {
           return (
-            <mesh key={index} geometry={child.geometry} position={child.position} rotation={child.rotation}>
-              {material}
-            </mesh>
+            <primitive key={index} object={child} material={material} visible={isShownAtLevel(child, level)} />
           )
         } else if (child instanceof THREE.Line) {
           return (
-            <primitive key={index} object={child} />
+            <primitive key={index} object={child} visible={isShownAtLevel(child, level)} />
           )
         }
         return null
       })}
-    </primitive>
+    </group>
   )
 }
 
+// Reports a loaded model's centreline so charms attach along it, and the
+// model itself so it can be weighed
+const ModelPathReporter: React.FC<{
+  object: THREE.Object3D
+  scale: number
+  onPathChange?: (path: THREE.Curve<THREE.Vector3> | null) => void
+  onModelChange?: (model: THREE.Object3D | null) => void
+}> = ({ object, scale, onPathChange, onModelChange }) => {
+  useEffect(() => {
+    onPathChange?.(extractNecklacePath(object))
+    return () => onPathChange?.(null)
+  }, [object, scale, onPathChange])
+
+  useEffect(() => {
+    onModelChange?.(object)
+    return () => onModelChange?.(null)
+  }, [object, scale, onModelChange])
+
+  return null
+}
+
 // GLTF Necklace Model component
 const NecklaceModel: React.FC<{ 
   modelPath: string
-  material: React.ReactElement
+  lodModelPaths?: string[]
+  fallback: ModelAsset
+  material: THREE.Material
   base: NecklaceType['base']
-}> = ({ modelPath, material, base }) => {
-  try {
-    const { scene } = useGLTF(modelPath)
-    
-    // Clone the scene to avoid modifying the original
-    const clonedScene = useMemo(() => scene.clone(), [scene])
-    
-    // Scale the model based on necklace length
-    const scale = base.length / 8 // Normalize to our standard length
-    clonedScene.scale.setScalar(scale)
-    
-    // Apply materials to all meshes in the loaded model
-    useMemo(() => {
-      clonedScene.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          child.userData.originalMaterial = child.material
-          // Apply our jewelry material
-          child.material = new THREE.MeshStandardMaterial({
-            color: base.material.color,
-            metalness: base.material.metallic || 1,
-            roughness: base.material.roughness || 0.1,
-          })
-        }
-      })
-    }, [clonedScene, base.material])
+  simulation: ChainSimulation
+  onPathChange?: (path: THREE.Curve<THREE.Vector3> | null) => void
+  onModelChange?: (model: THREE.Object3D | null) => void
+}> = ({ modelPath, lodModelPaths, fallback, material, base, simulation, onPathChange, onModelChange }) => {
+  const group = useRef<THREE.Group>(null)
+  const lodDistances = useMemo(() => MODEL_LOD_DISTANCES.slice(0, lodModelPaths?.length ?? 0), [lodModelPaths])
+  const level = useLevelOfDetail(group, lodDistances)
+  const { model, isFallback, variant } = useNecklaceLoader(modelPath, fallback, lodModelPaths, level)
 
-    return <primitive object={clonedScene} />
-  } catch (error) {
-    console.warn(`Failed to load necklace model ${modelPath}, using fallback`, error)
-    return <NecklaceFallback base={base} material={material} />
-  }
+  // Clone the scene to avoid modifying the original
+  const clonedScene = useMemo(() => (isFallback ? null : model.scene.clone()), [model, isFallback])
+  
+  // Scale the model based on necklace length
+  const scale = base.length / 8 // Normalize to our standard length
+  clonedScene?.scale.setScalar(scale)
+  
+  // Apply materials to all meshes in the loaded model
+  useMemo(() => {
+    clonedScene?.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.userData.originalMaterial = child.material
+        // Apply our jewelry material
+        child.material = material
+      }
+    })
+  }, [clonedScene, material])
+
+  // Weighed at full detail only, and kept while coarser variants show, so
+  // switching variants doesn't change the drape
+  const [weighedModel, setWeighedModel] = useState<THREE.Object3D | null>(null)
+  useEffect(() => {
+    if (variant === 0 && clonedScene) setWeighedModel(clonedScene)
+  }, [variant, clonedScene])
+
+  return (
+    <group ref={group}>
+      {clonedScene ? (
+        <>
+          <primitive object={clonedScene} />
+          {/* Charms follow whichever variant is shown */}
+          <ModelPathReporter object={clonedScene} scale={scale} onPathChange={onPathChange} />
+        </>
+      ) : (
+        <NecklaceFallback model={model} material={material} simulation={simulation} />
+      )}
+      {weighedModel && <ModelPathReporter object={weighedModel} scale={scale} onModelChange={onModelChange} />}
+    </group>
+  )
 }
 
 export const Necklace: React.FC<NecklaceProps> = ({
   necklace,
+  displayMode = 'floating',
   showAttachmentPoints = false,
+  showPhysics = false,
   animateCharms = true,
+  materialEffect,
   onCharmClick,
   onCharmHover,
+  dropTargets = null,
+  onAttachmentPointDrop,
+  onCharmDragStart,
+  exportRef,
 }) => {
+  const [hoveredPoint, setHoveredPoint] = useState<string | null>(null)
+  const rootGroup = useRef<THREE.Group>(null)
+  const baseGroup = useRef<THREE.Group>(null)
+  const charmGroups = useRef<(THREE.Group | null)[]>([])
+  const pointMeshes = useRef<(THREE.Mesh | null)[]>([])
+  const [modelPath, setModelPath] = useState<THREE.Curve<THREE.Vector3> | null>(null)
+  const [baseModel, setBaseModel] = useState<THREE.Object3D | null>(null)
+  const [charmModels, setCharmModels] = useState<Record<string, THREE.Object3D>>({})
   
-  // Create base material
-  const baseMaterial = useMemo(() => {
-    const material = necklace.base.material
-    return (
-      <meshStandardMaterial
-        color={material.color}
-        metalness={material.metallic || 1}
-        roughness={material.roughness || 0.1}
-      />
-    )
-  }, [necklace.base.material])
-
-  // Calculate attachment point positions along the necklace
-  const calculateAttachmentPositions = useMemo(() => {
-    const radius = necklace.base.length / (2 * Math.PI)
-    
-    return necklace.base.attachmentPoints.map((point, index) => {
-      // Distribute attachment points evenly around the necklace
-      const angle = (index / necklace.base.attachmentPoints.length) * Math.PI * 2
-      const x = Math.cos(angle) * radius
-      const z = Math.sin(angle) * radius
-      const y = -0.5 // Base height
-      
-      return {
-        ...point,
-        calculatedPosition: [x, y, z] as THREE.Vector3Tuple,
-        calculatedRotation: new THREE.Euler(0, angle, 0)
+  // Shared with charms of the same material, so they match
+  const baseMaterial = useMemo(
+    () => materialRegistry.getRenderMaterial(necklace.base.material, materialEffect),
+    [necklace.base.material, materialEffect]
+  )
+
+  // Procedural stand-in for the base model, built from the base's own settings
+  const fallbackModel = useMemo(() => {
+    return createFallbackGLTF(createFallbackNecklace(necklace.base.type, necklace.base.length, {
+      chainStyle: necklace.base.chainStyle,
+      linkGauge: necklace.base.linkGauge,
+      linkLength: necklace.base.linkLength,
+    }))
+  }, [necklace.base.type, necklace.base.length, necklace.base.chainStyle, necklace.base.linkGauge, necklace.base.linkLength])
+
+  // Attachment points are authored against the necklace at rest: the loaded
+  // model's centreline, or the procedural loop
+  const restPath = useMemo(() => {
+    return modelPath ?? createFlatNecklacePath(necklace.base.length)
+  }, [modelPath, necklace.base.length])
+
+  const attachmentParameters = useMemo(() => {
+    return resolveAttachmentParameters(necklace.base.attachmentPoints, restPath)
+  }, [necklace.base.attachmentPoints, restPath])
+
+  // Authored rotations are offsets from the frame at each point
+  const attachmentOffsets = useMemo(() => {
+    return necklace.base.attachmentPoints.map((point) => new THREE.Quaternion().setFromEuler(point.rotation))
+  }, [necklace.base.attachmentPoints])
+
+  const handleCharmModelLoad = useCallback((charmId: string, model: THREE.Object3D | null) => {
+    setCharmModels(prev => {
+      const next = { ...prev }
+      if (model) {
+        next[charmId] = model
+      } else {
+        delete next[charmId]
       }
+      return next
     })
-  }, [necklace.base.attachmentPoints, necklace.base.length])
+  }, [])
 
-  // Render attachment point indicators
-  const renderAttachmentPoints = () => {
-    if (!showAttachmentPoints) return null
-
-    return calculateAttachmentPositions.map((point) => (
-      <mesh key={point.id} position={point.calculatedPosition}>
-        <sphereGeometry args={[0.02]} />
-        <meshBasicMaterial 
-          color={point.occupied ? "#ff4444" : "#44ff44"} 
-          transparent 
-          opacity={0.7} 
-        />
-      </mesh>
-    ))
-  }
+  // Weigh the chain and charms from their geometry, loaded models when available
+  const { base } = necklace
+  const baseWeight = useMemo(() => estimateBaseWeight(base, baseModel).weight, [base, baseModel])
 
-  // Render all charms attached to the necklace
-  const renderCharms = () => {
-    return necklace.charms.map((charmData, index) => {
-      const attachmentPoint = calculateAttachmentPositions.find(
+  const weighedNecklace = useMemo(() => ({
+    ...necklace,
+    charms: necklace.charms.map((placement) => ({
+      ...placement,
+      charm: { ...placement.charm, weight: estimateCharmWeight(placement.charm, charmModels[placement.charm.id]).weight },
+    })),
+  }), [necklace, charmModels])
+
+  // Drape the chain under gravity with the charms hanging from it
+  const simulationOptions = useMemo(() => ({
+    ...getDisplayModeSimulationOptions(displayMode),
+    linearDensity: baseWeight / base.length,
+  }), [displayMode, baseWeight, base.length])
+  const simulation = useChainPhysics({ necklace: weighedNecklace, attachmentParameters, options: simulationOptions })
+
+  const attachedCharms = useMemo(() => {
+    return weighedNecklace.charms.flatMap((charmData, charmIndex) => {
+      const pointIndex = necklace.base.attachmentPoints.findIndex(
         point => point.id === charmData.attachmentPointId
       )
+      return pointIndex >= 0 ? [{ charmData, charmIndex, pointIndex }] : []
+    })
+  }, [weighedNecklace.charms, necklace.base.attachmentPoints])
+
+  // Attachment point frames on the current chain path
+  const getAttachmentFrames = useCallback((sim: ChainSimulation) => {
+    const path = modelPath ?? sim.getCurve()
+    const frames = createPathFrames(path)
+    return necklace.base.attachmentPoints.map((point, index) => {
+      const frame = getPathFrame(path, attachmentParameters[point.id], frames)
+      frame.quaternion.multiply(attachmentOffsets[index])
+      return frame
+    })
+  }, [modelPath, necklace.base.attachmentPoints, attachmentParameters, attachmentOffsets])
+
+  // Keep charms and indicators on the current chain path, oriented by its frames
+  const invalidatePlacement = useSimulationFrame(simulation, (sim) => {
+    const points = getAttachmentFrames(sim)
+
+    attachedCharms.forEach(({ charmData, pointIndex }, index) => {
+      const group = charmGroups.current[index]
+      if (!group) return
+      const frame = points[pointIndex]
+
+      if (charmData.customPosition) {
+        group.position.set(...charmData.customPosition)
+      } else {
+        group.position.copy(frame.position)
+      }
+
+      if (charmData.customRotation) {
+        group.quaternion.setFromEuler(charmData.customRotation)
+      } else {
+        group.quaternion.copy(frame.quaternion)
+        if (displayMode === 'flat') {
+          group.quaternion.multiply(new THREE.Quaternion().setFromEuler(FLAT_LAY_CHARM_ROTATION))
+        }
+      }
+    })
+
+    points.forEach((frame, index) => {
+      pointMeshes.current[index]?.position.copy(frame.position)
+    })
+  })
 
-      if (!attachmentPoint) return null
+  useImperativeHandle(exportRef, () => ({
+    exportGLB: () => {
+      if (!rootGroup.current || !baseGroup.current) {
+        return Promise.reject(new Error('The necklace has not been rendered yet'))
+      }
+      const frames = getAttachmentFrames(simulation)
+      return exportNecklaceGLB({
+        necklace: weighedNecklace,
+        root: rootGroup.current,
+        base: baseGroup.current,
+        charms: attachedCharms.flatMap(({ charmIndex }, index) => {
+          const object = charmGroups.current[index]
+          return object ? [{ object, charmIndex }] : []
+        }),
+        attachmentFrames: Object.fromEntries(necklace.base.attachmentPoints.map((point, index) => [point.id, frames[index]])),
+        basePath: simulation.getCurve(),
+      })
+    },
+  }), [getAttachmentFrames, simulation, weighedNecklace, attachedCharms, necklace.base.attachmentPoints])
 
-      const position = charmData.customPosition || attachmentPoint.calculatedPosition
-      const rotation = charmData.customRotation || attachmentPoint.calculatedRotation
+  // Render attachment point indicators, which double as drop targets while dragging
+  const renderAttachmentPoints = () => {
+    if (!showAttachmentPoints && !dropTargets) return null
+
+    return necklace.base.attachmentPoints.map((point, index) => {
+      const accepts = dropTargets?.[point.id]
+      const color = dropTargets
+        ? accepts ? (hoveredPoint === point.id ? '#ffffff' : '#44ff44') : '#666666'
+        : point.occupied ? '#ff4444' : '#44ff44'
 
       return (
+        <mesh
+          key={point.id}
+          ref={(mesh) => {
+            pointMeshes.current[index] = mesh
+            invalidatePlacement()
+          }}
+          scale={dropTargets ? DROP_TARGET_SCALE : 1}
+          userData={{ [HIDE_IN_EXPORT]: true }}
+          onPointerOver={dropTargets ? (event) => {
+            event.stopPropagation()
+            setHoveredPoint(point.id)
+          } : undefined}
+          onPointerOut={() => setHoveredPoint(null)}
+          onPointerUp={dropTargets && accepts ? (event) => {
+            event.stopPropagation()
+            onAttachmentPointDrop?.(point.id)
+          } : undefined}
+        >
+          <sphereGeometry args={[0.02]} />
+          <meshBasicMaterial 
+            color={color} 
+            transparent 
+            opacity={dropTargets && !accepts ? 0.3 : 0.7} 
+          />
+        </mesh>
+      )
+    })
+  }
+
+  // Render all charms attached to the necklace
+  const renderCharms = () => {
+    return attachedCharms.map(({ charmData, charmIndex }, index) => (
+      <group
+        key={`${charmData.charm.id}-${index}`}
+        ref={(group) => {
+          charmGroups.current[index] = group
+          invalidatePlacement()
+        }}
+        onPointerDown={onCharmDragStart ? (event) => {
+          event.stopPropagation()
+          onCharmDragStart(charmIndex)
+        } : undefined}
+      >
         <Charm
-          key={`${charmData.charm.id}-${index}`}
           charm={charmData.charm}
-          position={position}
-          rotation={rotation}
-          animate={animateCharms}
+          position={[0, 0, 0]}
+          animate={animateCharms && displayMode !== 'flat'}
+          materialEffect={materialEffect}
           onClick={(charm) => onCharmClick?.(charm.id)}
           onHover={(charm) => onCharmHover?.(charm?.id || null)}
+          onModelLoad={handleCharmModelLoad}
         />
-      )
-    })
+      </group>
+    ))
   }
 
   return (
-    <group>
+    <group ref={rootGroup}>
       {/* Necklace Base */}
-      <Suspense fallback={<NecklaceFallback base={necklace.base} material={baseMaterial} />}>
+      <group ref={baseGroup}>
+      <ModelErrorBoundary
+        resetKey={necklace.base.modelPath}
+        fallback={<NecklaceFallback model={fallbackModel} material={baseMaterial} simulation={simulation} />}
+      >
         <NecklaceModel 
           modelPath={necklace.base.modelPath} 
+          lodModelPaths={necklace.base.lodModelPaths}
+          fallback={fallbackModel}
           material={baseMaterial} 
           base={necklace.base}
+          simulation={simulation}
+          onPathChange={setModelPath}
+          onModelChange={setBaseModel}
         />
-      </Suspense>
+      </ModelErrorBoundary>
+      </group>
       
       {/* Attachment Point Indicators */}
       {renderAttachmentPoints()}
       
       {/* Charms */}
       {renderCharms()}
+
+      {/* Chain simulation overlay */}
+      {showPhysics && (
+        <group userData={{ [HIDE_IN_EXPORT]: true }}>
+          <PhysicsDebug simulation={simulation} />
+        </group>
+      )}
     </group>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react'
+import * as THREE from 'three'
+import { useSimulationFrame } from '../../hooks/useChainPhysics'
+import type { ChainSimulation } from '../../utils/physics'
+
+export interface PhysicsDebugProps {
+  simulation: ChainSimulation
+  particleSize?: number
+}
+
+const CONSTRAINT_COLORS = {
+  structural: new THREE.Color('#4ecdc4'),
+  bending: new THREE.Color('#ffb347'),
+}
+const FREE_PARTICLE_COLOR = new THREE.Color('#ffffff')
+const PINNED_PARTICLE_COLOR = new THREE.Color('#ff4444')
+const LOADED_PARTICLE_COLOR = new THREE.Color('#ffd700')
+
+// Debug overlay of chain particles and constraints
+export const PhysicsDebug: React.FC<PhysicsDebugProps> = ({ simulation, particleSize = 0.06 }) => {
+  const { pointsGeometry, linesGeometry } = useMemo(() => {
+    const { particles, constraints } = simulation
+
+    const points = new THREE.BufferGeometry()
+    points.setAttribute('position', new THREE.BufferAttribute(new Float32Array(particles.length * 3), 3))
+    const pointColors = particles.flatMap((particle) => {
+      if (particle.invMass === 0) return PINNED_PARTICLE_COLOR.toArray()
+      // Particles carrying charm weight stand out from the bare chain
+      if (particle.load > 0) return LOADED_PARTICLE_COLOR.toArray()
+      return FREE_PARTICLE_COLOR.toArray()
+    })
+    points.setAttribute('color', new THREE.Float32BufferAttribute(pointColors, 3))
+
+    const lines = new THREE.BufferGeometry()
+    lines.setAttribute('position', new THREE.BufferAttribute(new Float32Array(constraints.length * 6), 3))
+    const lineColors = constraints.flatMap((constraint) => [
+      ...CONSTRAINT_COLORS[constraint.kind].toArray(),
+      ...CONSTRAINT_COLORS[constraint.kind].toArray(),
+    ])
+    lines.setAttribute('color', new THREE.Float32BufferAttribute(lineColors, 3))
+
+    return { pointsGeometry: points, linesGeometry: lines }
+  }, [simulation])
+
+  useSimulationFrame(simulation, ({ particles, constraints }) => {
+    const pointPositions = pointsGeometry.getAttribute('position') as THREE.BufferAttribute
+    particles.forEach((particle, i) => {
+      pointPositions.setXYZ(i, particle.position.x, particle.position.y, particle.position.z)
+    })
+    pointPositions.needsUpdate = true
+    pointsGeometry.computeBoundingSphere()
+
+    const linePositions = linesGeometry.getAttribute('position') as THREE.BufferAttribute
+    constraints.forEach((constraint, i) => {
+      const a = particles[constraint.a].position
+      const b = particles[constraint.b].position
+      linePositions.setXYZ(i * 2, a.x, a.y, a.z)
+      linePositions.setXYZ(i * 2 + 1, b.x, b.y, b.z)
+    })
+    linePositions.needsUpdate = true
+    linesGeometry.computeBoundingSphere()
+  })
+
+  return (
+    <group>
+      <lineSegments geometry={linesGeometry}>
+        <lineBasicMaterial vertexColors transparent opacity={0.6} depthTest={false} />
+      </lineSegments>
+      <points geometry={pointsGeometry}>
+        <pointsMaterial vertexColors size={particleSize} sizeAttenuation depthTest={false} />
+      </points>
+    </group>
+  )
+}
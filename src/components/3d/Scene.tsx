@@ -1,26 +1,59 @@
-import React, { useState } from 'react'
-import { OrbitControls, Text, Environment } from '@react-three/drei'
-import { Necklace } from './Necklace'
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import * as THREE from 'three'
+import { useThree } from '@react-three/fiber'
+import { OrbitControls, Text } from '@react-three/drei'
+import { Necklace, type NecklaceExportHandle } from './Necklace'
+import { Mannequin } from './Mannequin'
+import { Lighting } from './Lighting'
+import { JewelryEnvironment } from './Environment'
+import { ANGLE_PRESETS, useCameraControls } from '../../hooks/useCameraControls'
+import { useMaterialEffectClock } from '../../hooks/useMaterialEffectClock'
+import { BACKDROP, HIDE_IN_EXPORT, renderPresetStills, renderStill, type StillExportOptions } from '../../utils/stillExport'
+import { configureModelLoader } from '../../utils/modelLoader'
+import type { CharmDesigner } from '../../hooks/useCharmDesigner'
 import { METALS } from '../../types'
-import type { Necklace as NecklaceType, ViewerState } from '../../types'
+import type { CameraView, Necklace as NecklaceType, ViewerState } from '../../types'
+
+// Lets the page outside the canvas read the camera and export stills and models
+export interface SceneHandle {
+  getCameraView: () => CameraView
+  exportStill: (options: StillExportOptions) => Promise<Blob> // PNG of the current view
+  exportPresetStills: (name: string, options: StillExportOptions) => Promise<Blob> // ZIP of PNGs from every angle preset (not the flat lay)
+  exportGLB: () => Promise<ArrayBuffer> // Binary glTF of the necklace as designed
+}
 
 export interface SceneProps {
   selectedNecklace?: NecklaceType
   viewerState?: ViewerState
+  cameraView?: CameraView | null // Jump here whenever it changes
+  sceneRef?: React.Ref<SceneHandle>
   onCharmClick?: (charmId: string) => void
   onCharmHover?: (charmId: string | null) => void
+  designer?: CharmDesigner
 }
 
+const CONTROLS_TARGET: THREE.Vector3Tuple = [0, -0.5, 0]
+
 export const Scene: React.FC<SceneProps> = ({
   selectedNecklace,
   viewerState,
+  cameraView,
+  sceneRef,
   onCharmClick,
   onCharmHover,
+  designer,
 }) => {
   const [hoveredCharm, setHoveredCharm] = useState<string | null>(null)
+  const { gl, scene, camera } = useThree()
+
+  // Models wait for this to pick KTX2 texture formats the GPU supports
+  useEffect(() => {
+    configureModelLoader(gl)
+  }, [gl])
 
   // Create a simple demo necklace with enhanced materials
-  const demoNecklace: NecklaceType = {
+  // (memoized so the chain simulation isn't rebuilt on every hover)
+  const demoNecklace = useMemo<NecklaceType>(() => ({
     id: 'demo-necklace',
     name: 'Brilliant Gold Necklace',
     base: {
@@ -34,7 +67,7 @@ export const Scene: React.FC<SceneProps> = ({
         {
           id: 'center',
           position: [0, -0.5, 1],
-          rotation: { _x: 0, _y: 0, _z: 0, _order: 'XYZ' } as any,
+          rotation: new THREE.Euler(0, 0, 0),
           type: 'centerpiece',
           maxCharmSize: 2,
           occupied: true,
@@ -42,7 +75,7 @@ export const Scene: React.FC<SceneProps> = ({
         {
           id: 'left',
           position: [-1.2, -0.5, 0.8],
-          rotation: { _x: 0, _y: 0, _z: 0, _order: 'XYZ' } as any,
+          rotation: new THREE.Euler(0, 0, 0),
           type: 'segment',
           maxCharmSize: 1,
           occupied: true,
@@ -103,9 +136,48 @@ export const Scene: React.FC<SceneProps> = ({
       created: new Date(),
       modified: new Date(),
     },
-  }
+  }), [])
 
   const currentNecklace = selectedNecklace || demoNecklace
+  const displayMode = viewerState?.displayMode ?? 'floating'
+  const lighting = viewerState?.lighting ?? currentNecklace.displaySettings.lighting
+  const editMode = Boolean(viewerState?.editMode && designer)
+  const highlight = viewerState?.highlight ?? 'none'
+
+  // Highlights all animate in step
+  useMaterialEffectClock()
+
+  const { orbitControlsConfig, transitionToPreset, getCameraState, setCameraView } = useCameraControls({
+    dampingFactor: 0.08,
+    minDistance: 2,
+    maxDistance: 10,
+    target: CONTROLS_TARGET,
+  })
+
+  const necklaceRef = useRef<NecklaceExportHandle>(null)
+
+  // Flat-lays are shot from overhead; go back to the default angle when leaving
+  const previousDisplayMode = useRef(displayMode)
+  useEffect(() => {
+    if (previousDisplayMode.current === displayMode) return
+    previousDisplayMode.current = displayMode
+    transitionToPreset(displayMode === 'flat' ? 'flat-lay' : 'three-quarter')
+  }, [displayMode, transitionToPreset])
+
+  // After the display mode effect, so a restored view wins over its preset
+  useEffect(() => {
+    if (cameraView) setCameraView(cameraView)
+  }, [cameraView, setCameraView])
+
+  useImperativeHandle(sceneRef, () => ({
+    getCameraView: () => {
+      const { position, target } = getCameraState()
+      return { position, target }
+    },
+    exportStill: (options) => renderStill(gl, scene, camera, options),
+    exportPresetStills: (name, options) => renderPresetStills(gl, scene, camera, ANGLE_PRESETS, name, options),
+    exportGLB: () => necklaceRef.current?.exportGLB() ?? Promise.reject(new Error('No necklace to export')),
+  }), [getCameraState, gl, scene, camera])
 
   const handleCharmHover = (charmId: string | null) => {
     setHoveredCharm(charmId)
@@ -114,29 +186,14 @@ export const Scene: React.FC<SceneProps> = ({
 
   return (
     <>
-      {/* HDRI Environment for Reflections */}
-      <Environment preset="studio" background={false} />
-
-      {/* Bright Studio Lighting */}
-      <ambientLight intensity={0.8} color="#ffffff" />
-      <directionalLight 
-        position={[10, 10, 5]} 
-        intensity={2.0} 
-        castShadow
-        shadow-mapSize={[2048, 2048]}
-        color="#ffffff"
-      />
-      <directionalLight 
-        position={[-8, 8, 4]} 
-        intensity={1.5} 
-        color="#f8f8ff"
-      />
-      <pointLight position={[-8, 6, -6]} intensity={1.5} color="#ffe4b5" />
-      <pointLight position={[5, -5, 8]} intensity={1.2} color="#e6e6fa" />
-      <pointLight position={[0, 8, 0]} intensity={1.0} color="#ffffff" />
+      {/* HDRI Environment for Reflections, crossfading between presets */}
+      <JewelryEnvironment preset={lighting} background={false} />
+
+      {/* Studio Lighting */}
+      <Lighting preset={lighting} />
 
       {/* Bright Ground Plane */}
-      <mesh receiveShadow rotation={[-Math.PI / 2, 0, 0]} position={[0, -3, 0]}>
+      <mesh receiveShadow rotation={[-Math.PI / 2, 0, 0]} position={[0, -3, 0]} userData={{ [BACKDROP]: true }}>
         <planeGeometry args={[20, 20]} />
         <meshStandardMaterial 
           color="#444444" 
@@ -145,39 +202,55 @@ export const Scene: React.FC<SceneProps> = ({
         />
       </mesh>
 
-      {/* Highly Reflective Test Cube */}
-      <mesh position={[2, 1, 0]} castShadow>
-        <boxGeometry args={[0.8, 0.8, 0.8]} />
-        <meshStandardMaterial 
-          color="#ff6b6b" 
-          metalness={1.0}
-          roughness={0.1}
-          envMapIntensity={2.0}
-        />
-      </mesh>
+      {/* Display bust the necklace rests on */}
+      {displayMode === 'mannequin' && <Mannequin />}
 
-      {/* Additional Test Sphere for reflection comparison */}
-      <mesh position={[-2, 0.5, 0]} castShadow>
-        <sphereGeometry args={[0.5]} />
-        <meshStandardMaterial 
-          color="#4ecdc4" 
-          metalness={1.0}
-          roughness={0.0}
-          envMapIntensity={3.0}
-        />
-      </mesh>
+      {displayMode === 'floating' && (
+        <group userData={{ [HIDE_IN_EXPORT]: true }}>
+          {/* Highly Reflective Test Cube */}
+          <mesh position={[2, 1, 0]} castShadow>
+            <boxGeometry args={[0.8, 0.8, 0.8]} />
+            <meshStandardMaterial 
+              color="#ff6b6b" 
+              metalness={1.0}
+              roughness={0.1}
+              envMapIntensity={2.0}
+            />
+          </mesh>
+
+          {/* Additional Test Sphere for reflection comparison */}
+          <mesh position={[-2, 0.5, 0]} castShadow>
+            <sphereGeometry args={[0.5]} />
+            <meshStandardMaterial 
+              color="#4ecdc4" 
+              metalness={1.0}
+              roughness={0.0}
+              envMapIntensity={3.0}
+            />
+          </mesh>
+        </group>
+      )}
 
       {/* Main Necklace */}
       <Necklace
+        key={currentNecklace.id}
+        exportRef={necklaceRef}
         necklace={currentNecklace}
-        showAttachmentPoints={false}
+        displayMode={displayMode}
+        showAttachmentPoints={viewerState?.showAttachmentPoints || editMode}
+        showPhysics={viewerState?.showPhysics}
         animateCharms={true}
+        materialEffect={highlight === 'none' ? undefined : highlight}
         onCharmClick={onCharmClick}
         onCharmHover={handleCharmHover}
+        dropTargets={editMode ? designer?.dropTargets : null}
+        onAttachmentPointDrop={designer?.dropOnPoint}
+        onCharmDragStart={editMode ? (charmIndex) => designer?.startDrag(currentNecklace.charms[charmIndex].charm, charmIndex) : undefined}
       />
 
       {/* Title */}
       <Text
+        userData={{ [HIDE_IN_EXPORT]: true }}
         position={[0, 3.5, 0]}
         fontSize={0.6}
         color="#ffffff"
@@ -189,6 +262,7 @@ export const Scene: React.FC<SceneProps> = ({
 
       {/* Subtitle */}
       <Text
+        userData={{ [HIDE_IN_EXPORT]: true }}
         position={[0, 3.0, 0]}
         fontSize={0.25}
         color="#4ecdc4"
@@ -201,6 +275,7 @@ export const Scene: React.FC<SceneProps> = ({
       {/* Hover info */}
       {hoveredCharm && (
         <Text
+          userData={{ [HIDE_IN_EXPORT]: true }}
           position={[0, 2.3, 0]}
           fontSize={0.35}
           color="#ff6b6b"
@@ -213,6 +288,7 @@ export const Scene: React.FC<SceneProps> = ({
 
       {/* Instructions */}
       <Text
+        userData={{ [HIDE_IN_EXPORT]: true }}
         position={[0, -2.5, 0]}
         fontSize={0.22}
         color="#cccccc"
@@ -223,17 +299,8 @@ export const Scene: React.FC<SceneProps> = ({
       </Text>
 
       {/* Enhanced Controls */}
-      <OrbitControls
-        enablePan={true}
-        enableZoom={true}
-        enableRotate={true}
-        maxDistance={10}
-        minDistance={2}
-        target={[0, -0.5, 0]}
-        enableDamping={true}
-        dampingFactor={0.08}
-        autoRotate={false}
-      />
+      {/* Hold the camera still while a charm is being dragged */}
+      <OrbitControls {...orbitControlsConfig} enabled={!designer?.drag} />
     </>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import React from 'react'
+import type { CharmDesigner } from '../../hooks/useCharmDesigner'
+import type { Charm } from '../../types'
+
+export interface CharmPaletteProps {
+  charms: Charm[]
+  designer: CharmDesigner
+}
+
+// Charms to drag onto the necklace; attached charms dropped back here are removed
+export const CharmPalette: React.FC<CharmPaletteProps> = ({ charms, designer }) => {
+  const { drag, startDrag, removeDragged } = designer
+  const removing = drag?.charmIndex !== undefined
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLLIElement>, charm: Charm) => {
+    event.preventDefault()
+    // Touch pointers are captured by the element they start on; let the scene see the move
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    startDrag(charm)
+  }
+
+  return (
+    <div className={`charm-palette${removing ? ' removing' : ''}`} onPointerUp={removing ? removeDragged : undefined}>
+      <h3>{removing ? 'Drop here to remove' : 'Charms'}</h3>
+      <ul>
+        {charms.map((charm) => (
+          <li
+            key={charm.id}
+            className={drag?.charm.id === charm.id && !removing ? 'dragging' : undefined}
+            onPointerDown={(event) => handlePointerDown(event, charm)}
+          >
+            <span className="swatch" style={{ background: charm.material.color }} />
+            {charm.name}
+            <small>{charm.attachmentType} · size {charm.size}</small>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import React, { useState } from 'react'
+import type { NecklaceCollection, ViewerState } from '../../types'
+
+export interface ControlsProps {
+  viewerState: ViewerState
+  collections?: NecklaceCollection[]
+  onChange: (changes: Partial<ViewerState>) => void
+  onShare?: () => Promise<unknown> // Copy a link to the current view
+}
+
+export const Controls: React.FC<ControlsProps> = ({
+  viewerState,
+  collections = [],
+  onChange,
+  onShare,
+}) => {
+  const [shareStatus, setShareStatus] = useState<string | null>(null)
+
+  const handleShare = async () => {
+    try {
+      await onShare?.()
+      setShareStatus('Link copied')
+    } catch (error) {
+      console.warn('Could not share view', error)
+      setShareStatus('Copy the link from the address bar')
+    }
+  }
+
+  return (
+    <div className="controls">
+      {collections.length > 0 && (
+        <label>
+          Necklace
+          <select
+            value={viewerState.selectedNecklaceId ?? ''}
+            onChange={(event) => onChange({ selectedNecklaceId: event.target.value, selectedCharmId: null })}
+          >
+            {collections.map((collection) => (
+              <optgroup key={collection.id} label={collection.name}>
+                {collection.necklaces.map((necklace) => (
+                  <option key={necklace.id} value={necklace.id}>
+                    {necklace.name}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+      )}
+      <label>
+        Display
+        <select
+          value={viewerState.displayMode}
+          onChange={(event) => onChange({ displayMode: event.target.value as ViewerState['displayMode'] })}
+        >
+          <option value="floating">Floating</option>
+          <option value="mannequin">Mannequin</option>
+          <option value="flat">Flat lay</option>
+        </select>
+      </label>
+      <label>
+        Lighting
+        <select
+          value={viewerState.lighting}
+          onChange={(event) => onChange({ lighting: event.target.value as ViewerState['lighting'] })}
+        >
+          <option value="jewelry-studio">Jewelry studio</option>
+          <option value="studio">Studio</option>
+          <option value="natural">Natural</option>
+          <option value="dramatic">Dramatic</option>
+          <option value="soft">Soft</option>
+        </select>
+      </label>
+      <label>
+        Highlight
+        <select
+          value={viewerState.highlight}
+          onChange={(event) => onChange({ highlight: event.target.value as ViewerState['highlight'] })}
+        >
+          <option value="none">None</option>
+          <option value="shimmer">Shimmer</option>
+          <option value="pulse">Pulse</option>
+          <option value="rainbow">Rainbow</option>
+          <option value="sparkle">Sparkle sweep</option>
+        </select>
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={viewerState.showPhysics}
+          onChange={(event) => onChange({ showPhysics: event.target.checked })}
+        />
+        Show physics
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={viewerState.editMode}
+          onChange={(event) => onChange({ editMode: event.target.checked })}
+        />
+        Edit charms
+      </label>
+      {onShare && (
+        <button type="button" onClick={handleShare} onBlur={() => setShareStatus(null)}>
+          {shareStatus ?? 'Share view'}
+        </button>
+      )}
+    </div>
+  )
+}
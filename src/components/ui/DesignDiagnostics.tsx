@@ -0,0 +1,21 @@
+import React from 'react'
+import type { PlacementDiagnostic } from '../../types'
+
+export interface DesignDiagnosticsProps {
+  diagnostics: PlacementDiagnostic[]
+}
+
+// Lists placement problems with the current design
+export const DesignDiagnostics: React.FC<DesignDiagnosticsProps> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null
+
+  return (
+    <ul className="design-diagnostics" role="status">
+      {diagnostics.map((diagnostic, index) => (
+        <li key={`${diagnostic.rule}-${index}`} className={`diagnostic-${diagnostic.severity}`}>
+          {diagnostic.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react'
+import * as THREE from 'three'
+import { MILLIMETRES_PER_UNIT } from '../../types'
+import type { DesignHistoryState } from '../../hooks/useDesignHistory'
+import { useMaterialPresets } from '../../hooks/useMaterialPresets'
+import { setBaseLengthCommand, setBaseMaterialCommand } from '../../utils/designHistory'
+import { MaterialRegistryError, materialRegistry } from '../../utils/materialRegistry'
+import type { JewelryMaterial, Necklace } from '../../types'
+
+export interface DesignToolsProps {
+  necklace: Necklace
+  history: DesignHistoryState
+}
+
+const MILLIMETRES_PER_INCH = 25.4
+const toInches = (length: number) => (length * MILLIMETRES_PER_UNIT) / MILLIMETRES_PER_INCH
+const fromInches = (inches: number) => (inches * MILLIMETRES_PER_INCH) / MILLIMETRES_PER_UNIT
+
+// Standard necklace lengths run from choker to opera
+const MIN_LENGTH_INCHES = 14
+const MAX_LENGTH_INCHES = 30
+
+// Colour inputs only take #rrggbb
+const toColorInput = (color: string) => `#${new THREE.Color(color).getHexString()}`
+
+// Undo/redo and whole-necklace edits for the designer, including the
+// base's material, which can be tweaked and saved as a preset of your own
+export const DesignTools: React.FC<DesignToolsProps> = ({ necklace, history }) => {
+  const presets = useMaterialPresets()
+  const [presetName, setPresetName] = useState('')
+  const [presetError, setPresetError] = useState<string | null>(null)
+  const material = necklace.base.material
+  const presetId = materialRegistry.findPresetId(material) ?? ''
+  const selectedPreset = presets.find((preset) => preset.id === presetId)
+
+  const setMaterial = (changes: Partial<JewelryMaterial>) =>
+    history.execute(setBaseMaterialCommand(necklace, { ...material, ...changes }))
+
+  const savePreset = () => {
+    try {
+      materialRegistry.savePreset(presetName, material)
+      setPresetName('')
+      setPresetError(null)
+    } catch (error) {
+      if (!(error instanceof MaterialRegistryError)) throw error
+      setPresetError(error.message)
+    }
+  }
+
+  return (
+    <div className="design-tools">
+      <div className="design-tools-history">
+        <button type="button" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+          Undo
+        </button>
+        <button type="button" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </button>
+      </div>
+      <label>
+        Material
+        <select
+          value={presetId}
+          onChange={(event) => {
+            const preset = materialRegistry.get(event.target.value)
+            if (preset) history.execute(setBaseMaterialCommand(necklace, preset))
+          }}
+        >
+          {!presetId && <option value="">{material.name} (custom)</option>}
+          <optgroup label="Presets">
+            {presets.filter((preset) => preset.builtIn).map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.label}</option>
+            ))}
+          </optgroup>
+          {presets.some((preset) => !preset.builtIn) && (
+            <optgroup label="Saved">
+              {presets.filter((preset) => !preset.builtIn).map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.label}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+      <label>
+        Colour
+        <input type="color" value={toColorInput(material.color)} onChange={(event) => setMaterial({ color: event.target.value })} />
+      </label>
+      <label>
+        Roughness
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={material.roughness ?? 0}
+          onChange={(event) => setMaterial({ roughness: Number(event.target.value) })}
+        />
+        {(material.roughness ?? 0).toFixed(2)}
+      </label>
+      <div className="design-tools-preset">
+        <input
+          type="text"
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+        />
+        <button type="button" onClick={savePreset} disabled={!presetName.trim()}>
+          Save preset
+        </button>
+        {selectedPreset && !selectedPreset.builtIn && (
+          <button type="button" onClick={() => materialRegistry.removePreset(selectedPreset.id)}>
+            Delete
+          </button>
+        )}
+      </div>
+      {presetError && <p className="design-tools-error">{presetError}</p>}
+      <label>
+        Length
+        <input
+          type="range"
+          min={MIN_LENGTH_INCHES}
+          max={MAX_LENGTH_INCHES}
+          step={0.5}
+          value={Math.round(toInches(necklace.base.length) * 2) / 2}
+          onChange={(event) => history.execute(setBaseLengthCommand(necklace, fromInches(Number(event.target.value))))}
+        />
+        {toInches(necklace.base.length).toFixed(1)}"
+      </label>
+    </div>
+  )
+}
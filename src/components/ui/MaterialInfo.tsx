@@ -0,0 +1,66 @@
+import React from 'react'
+import { findMaterialData, formatComposition, formatRefractiveIndex } from '../../utils/materialDatabase'
+import { getMaterialDensity } from '../../utils/weightEstimation'
+import type { Necklace } from '../../types'
+
+export interface MaterialInfoProps {
+  necklace: Necklace
+  selectedCharmId: string | null
+}
+
+// Reference facts for the selected charm's material, or the base's when no charm is selected
+export const MaterialInfo: React.FC<MaterialInfoProps> = ({ necklace, selectedCharmId }) => {
+  const charm = necklace.charms.find((placement) => placement.charm.id === selectedCharmId)?.charm
+  const material = charm?.material ?? necklace.base.material
+  const data = findMaterialData(material)
+
+  return (
+    <div className="material-info">
+      <h3>{material.name}</h3>
+      <small>{charm ? charm.name : necklace.base.name}</small>
+      <table>
+        <tbody>
+          {data?.type === 'gemstone' && (
+            <>
+              <tr><td>Species</td><td>{data.species}</td></tr>
+              <tr><td>Refractive index</td><td>{formatRefractiveIndex(data)}</td></tr>
+              <tr><td>Birefringence</td><td>{data.birefringence > 0 ? data.birefringence.toFixed(3) : 'None'}</td></tr>
+              <tr><td>Dispersion</td><td>{data.dispersion.toFixed(3)}</td></tr>
+              <tr><td>Hardness</td><td>{data.hardness} Mohs</td></tr>
+            </>
+          )}
+          {data?.type === 'metal' && (
+            <>
+              <tr><td>Fineness</td><td>{data.karat ? `${data.karat}K (${data.fineness})` : data.fineness}</td></tr>
+              <tr><td>Alloy</td><td>{formatComposition(data)}</td></tr>
+            </>
+          )}
+          {/* The density weights are estimated with */}
+          <tr className={data ? undefined : 'estimated'}>
+            <td>Density{!data && ' *'}</td>
+            <td>{getMaterialDensity(material)} g/cm³</td>
+          </tr>
+          {charm?.gem && <tr><td>Stone</td><td>{charm.gem.carat} ct {charm.gem.cut.replace('-', ' ')}</td></tr>}
+          {charm && <tr><td>Weight</td><td>{charm.weight.toFixed(2)} g</td></tr>}
+        </tbody>
+      </table>
+      {data?.type === 'gemstone' && (
+        <div className="material-info-colors">
+          {data.colors.map((range) => (
+            <span
+              key={range.name}
+              title={range.name}
+              style={{ background: `linear-gradient(to right, ${range.lightest}, ${range.typical}, ${range.deepest})` }}
+            />
+          ))}
+        </div>
+      )}
+      {data?.type === 'metal' && (
+        <div className="material-info-colors">
+          <span title="Reflectance (F0)" style={{ background: data.reflectance }} />
+        </div>
+      )}
+      {!data && <small>* Typical for {material.type}; not in the material database</small>}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import React from 'react'
+import { useModelLoadProgress } from '../../hooks/useNecklaceLoader'
+import { retryFailedModels, retryModel } from '../../utils/modelLoader'
+
+const fileName = (url: string) => url.split('/').pop() || url
+
+// Per-model progress while models load, and the ones showing stand-ins
+// because they couldn't be loaded
+export const ModelLoadStatus: React.FC = () => {
+  const entries = useModelLoadProgress()
+  const loading = entries.filter((entry) => entry.status === 'loading')
+  const failed = entries.filter((entry) => entry.status === 'error')
+  if (loading.length === 0 && failed.length === 0) return null
+
+  return (
+    <div className="model-load-status" role="status">
+      {loading.length > 0 && (
+        <ul>
+          {loading.map((entry) => (
+            <li key={entry.url}>
+              <span>{fileName(entry.url)}</span>
+              <progress value={entry.progress} max={1} />
+              {entry.attempt > 1 && <small>retry {entry.attempt - 1}</small>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {failed.length > 0 && (
+        <details>
+          <summary>
+            {failed.length === 1 ? '1 model' : `${failed.length} models`} unavailable, showing stand-ins
+            <button type="button" onClick={retryFailedModels}>Retry</button>
+          </summary>
+          <ul>
+            {failed.map((entry) => (
+              <li key={entry.url} title={entry.error ?? undefined}>
+                <span>{fileName(entry.url)}</span>
+                <button type="button" onClick={() => retryModel(entry.url)}>Retry</button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import React, { useMemo, useState } from 'react'
+import { DEFAULT_PRICE_TABLE, quoteNecklace } from '../../utils/pricing'
+import { estimateNecklaceWeights } from '../../utils/weightEstimation'
+import type { Necklace } from '../../types'
+
+export interface QuotePanelProps {
+  necklace: Necklace
+}
+
+// Itemized price of the current design, updated as it's edited
+export const QuotePanel: React.FC<QuotePanelProps> = ({ necklace }) => {
+  const [engraving, setEngraving] = useState('')
+  const quote = useMemo(() => quoteNecklace(necklace, { engraving }), [necklace, engraving])
+  const weights = useMemo(() => estimateNecklaceWeights(necklace), [necklace])
+
+  return (
+    <div className="quote-panel">
+      <h3>Quote</h3>
+      <table>
+        <tbody>
+          {quote.lines.map((line, index) => (
+            <tr key={`${line.kind}-${index}`} className={line.estimated ? 'estimated' : undefined}>
+              <td>{line.description}{line.estimated && ' *'}</td>
+              <td>{line.formatted}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            <td>{quote.formattedTotal}</td>
+          </tr>
+          <tr className="weight">
+            <td>Approx. weight</td>
+            <td>{weights.total.toFixed(1)} g</td>
+          </tr>
+        </tfoot>
+      </table>
+      {quote.lines.some((line) => line.estimated) && <small>* Estimated from standard rates</small>}
+      <label>
+        Engraving
+        <input
+          type="text"
+          value={engraving}
+          maxLength={DEFAULT_PRICE_TABLE.engraving.maxCharacters}
+          placeholder="Optional"
+          onChange={(event) => setEngraving(event.target.value)}
+        />
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import React, { useState } from 'react'
+import { STILL_RESOLUTIONS, type StillExportOptions } from '../../utils/stillExport'
+
+export interface StillExportProps {
+  // allAngles: one still per angle preset (not the flat lay), zipped, instead of the current view
+  onExport: (options: StillExportOptions, allAngles: boolean) => Promise<void>
+  onExportModel?: () => Promise<void> // GLB of the necklace as designed
+}
+
+type ResolutionKey = keyof typeof STILL_RESOLUTIONS
+
+// Product stills of the current design, without labels or overlays, and
+// the 3D model for use elsewhere
+export const StillExport: React.FC<StillExportProps> = ({ onExport, onExportModel }) => {
+  const [resolution, setResolution] = useState<ResolutionKey>('4K')
+  const [transparent, setTransparent] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (exportError) {
+      console.error('Export failed', exportError)
+      setError(exportError instanceof Error ? exportError.message : 'Export failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleExport = (allAngles: boolean) =>
+    run(() => onExport({ ...STILL_RESOLUTIONS[resolution], transparent }, allAngles))
+
+  return (
+    <div className="still-export">
+      <h3>Export</h3>
+      <label>
+        Size
+        <select value={resolution} onChange={(event) => setResolution(event.target.value as ResolutionKey)}>
+          {(Object.keys(STILL_RESOLUTIONS) as ResolutionKey[]).map((key) => (
+            <option key={key} value={key}>
+              {key} ({STILL_RESOLUTIONS[key].width}×{STILL_RESOLUTIONS[key].height})
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <input type="checkbox" checked={transparent} onChange={(event) => setTransparent(event.target.checked)} />
+        Transparent background
+      </label>
+      <div className="still-export-actions">
+        <button type="button" disabled={busy} onClick={() => handleExport(false)}>
+          This view
+        </button>
+        <button type="button" disabled={busy} onClick={() => handleExport(true)}>
+          All angles (ZIP)
+        </button>
+      </div>
+      <small>All angles leaves out the flat lay; export that with This view</small>
+      {onExportModel && (
+        <div className="still-export-actions">
+          <button type="button" disabled={busy} onClick={() => run(onExportModel)}>
+            3D model (GLB)
+          </button>
+        </div>
+      )}
+      {error && <small className="still-export-error">{error}</small>}
+    </div>
+  )
+}
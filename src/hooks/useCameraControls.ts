@@ -1,6 +1,7 @@
 import { useRef, useCallback, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
 import * as THREE from 'three'
+import type { CameraView } from '../types'
 
 export interface CameraPreset {
   name: string
@@ -55,6 +56,12 @@ export const CAMERA_PRESETS: Record<string, CameraPreset> = {
     target: [0, 0, 0],
     description: 'Top-down overhead view'
   },
+  'flat-lay': {
+    name: 'Flat Lay',
+    position: [0, 2.5, 0.41],
+    target: [0, -3, 0.4],
+    description: 'Overhead catalog shot of the necklace laid flat'
+  },
   'detail': {
     name: 'Detail Close-up',
     position: [1, 1, 2],
@@ -75,6 +82,13 @@ export const CAMERA_PRESETS: Record<string, CameraPreset> = {
   },
 }
 
+// Angles on the necklace as displayed, for the all-angles still export.
+// The flat lay is a product shot of the necklace laid out on its own, so
+// it's left out.
+export const ANGLE_PRESETS: Record<string, CameraPreset> = Object.fromEntries(
+  Object.entries(CAMERA_PRESETS).filter(([key]) => key !== 'flat-lay')
+)
+
 export const useCameraControls = (props: UseCameraControlsProps = {}) => {
   const {
     enableDamping = true,
@@ -213,6 +227,20 @@ export const useCameraControls = (props: UseCameraControlsProps = {}) => {
     controlsState.current.currentPreset = null
   }, [camera])
 
+  // Jump straight to a view, e.g. one restored from a link
+  const setCameraView = useCallback((view: CameraView) => {
+    isTransitioning.current = false
+    controlsState.current.isTransitioning = false
+    controlsState.current.currentPreset = null
+
+    camera.position.set(...view.position)
+    camera.lookAt(...view.target)
+    if (controlsRef.current) {
+      controlsRef.current.target.set(...view.target)
+      controlsRef.current.update()
+    }
+  }, [camera])
+
   // Toggle auto-rotation
   const toggleAutoRotate = useCallback(() => {
     controlsState.current.autoRotate = !controlsState.current.autoRotate
@@ -289,6 +317,7 @@ export const useCameraControls = (props: UseCameraControlsProps = {}) => {
     setAutoRotateSpeed,
     focusOn,
     getCameraState,
+    setCameraView,
     
     // Configuration
     orbitControlsConfig,
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import { CATALOG_INDEX_URL, loadCatalog } from '../utils/catalog'
+import type { Catalog } from '../types'
+
+export interface CatalogLoadingState {
+  catalog: Catalog | null
+  isLoading: boolean
+  error: string | null
+}
+
+export const useCatalog = (indexUrl: string = CATALOG_INDEX_URL): CatalogLoadingState => {
+  const [state, setState] = useState<CatalogLoadingState>({
+    catalog: null,
+    isLoading: true,
+    error: null,
+  })
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    loadCatalog(indexUrl, controller.signal)
+      .then((catalog) => setState({ catalog, isLoading: false, error: null }))
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load necklace catalog', error)
+        setState({
+          catalog: null,
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load catalog',
+        })
+      })
+
+    return () => controller.abort()
+  }, [indexUrl])
+
+  return state
+}
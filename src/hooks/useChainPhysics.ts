@@ -0,0 +1,64 @@
+import { useCallback, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { createNecklaceSimulation, type ChainSimulation, type ChainSimulationOptions } from '../utils/physics'
+import type { Necklace } from '../types'
+
+export interface UseChainPhysicsProps {
+  necklace: Necklace
+  attachmentParameters: Record<string, number>
+  enabled?: boolean
+  options?: Partial<ChainSimulationOptions>
+}
+
+export const useChainPhysics = ({
+  necklace,
+  attachmentParameters,
+  enabled = true,
+  options,
+}: UseChainPhysicsProps) => {
+  const { base, charms } = necklace
+
+  // Rebuild the simulation whenever anything that affects the drape changes
+  const simulation = useMemo(() => {
+    const sim = createNecklaceSimulation(base, charms, attachmentParameters, options)
+    // Start from the draped pose rather than letting the chain fall on screen
+    sim.settle()
+    return sim
+  }, [base, charms, attachmentParameters, options])
+
+  useFrame((_state, delta) => {
+    if (enabled) {
+      simulation.update(delta)
+    }
+  })
+
+  return simulation
+}
+
+/**
+ * Run a callback after frames in which the simulation moved (and once for
+ * every new simulation), so idle chains cost nothing to render. Returns a
+ * function that forces the callback on the next frame, e.g. when objects
+ * it positions have just mounted.
+ */
+export const useSimulationFrame = (
+  simulation: ChainSimulation,
+  callback: (simulation: ChainSimulation) => void
+) => {
+  const lastSeen = useRef<{ simulation: ChainSimulation | null; version: number }>({
+    simulation: null,
+    version: -1,
+  })
+
+  useFrame(() => {
+    const seen = lastSeen.current
+    if (seen.simulation === simulation && seen.version === simulation.version) return
+    seen.simulation = simulation
+    seen.version = simulation.version
+    callback(simulation)
+  })
+
+  return useCallback(() => {
+    lastSeen.current.simulation = null
+  }, [])
+}
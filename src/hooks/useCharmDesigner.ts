@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { checkPlacement } from '../utils/placementRules'
+import { addCharmCommand, moveCharmCommand, removeCharmCommand } from '../utils/designHistory'
+import type { Charm, DesignCommand, Necklace } from '../types'
+
+// A charm being dragged from the palette, or an attached one being moved (charmIndex set)
+export interface CharmDrag {
+  charm: Charm
+  charmIndex?: number
+}
+
+export interface CharmDesigner {
+  drag: CharmDrag | null
+  dropTargets: Record<string, boolean> | null // Attachment point ID -> accepts the dragged charm
+  startDrag: (charm: Charm, charmIndex?: number) => void
+  dropOnPoint: (attachmentPointId: string) => void
+  removeDragged: () => void
+}
+
+/**
+ * Drag-and-drop editing of the charms on a necklace. Drops onto points
+ * that would break the placement rules are ignored; releasing anywhere
+ * that isn't a drop target cancels the drag.
+ */
+export const useCharmDesigner = (
+  necklace: Necklace | undefined,
+  execute: (command: DesignCommand) => void
+): CharmDesigner => {
+  const [drag, setDrag] = useState<CharmDrag | null>(null)
+
+  // Drop targets handle their own pointerup first; this only sees releases elsewhere
+  useEffect(() => {
+    if (!drag) return
+    const cancel = () => setDrag(null)
+    window.addEventListener('pointerup', cancel)
+    window.addEventListener('pointercancel', cancel)
+    return () => {
+      window.removeEventListener('pointerup', cancel)
+      window.removeEventListener('pointercancel', cancel)
+    }
+  }, [drag])
+
+  const dropTargets = useMemo(() => {
+    if (!drag || !necklace) return null
+    return Object.fromEntries(necklace.base.attachmentPoints.map((point) => [
+      point.id,
+      !checkPlacement(necklace, drag.charm, point.id, drag.charmIndex).some(({ severity }) => severity === 'error'),
+    ]))
+  }, [drag, necklace])
+
+  const startDrag = useCallback((charm: Charm, charmIndex?: number) => {
+    setDrag({ charm, charmIndex })
+  }, [])
+
+  const dropOnPoint = useCallback((attachmentPointId: string) => {
+    if (!drag || !necklace || !dropTargets?.[attachmentPointId]) return
+    if (drag.charmIndex === undefined) {
+      execute(addCharmCommand(necklace, drag.charm, attachmentPointId))
+    } else {
+      execute(moveCharmCommand(necklace, drag.charmIndex, attachmentPointId))
+    }
+    setDrag(null)
+  }, [drag, dropTargets, necklace, execute])
+
+  const removeDragged = useCallback(() => {
+    if (drag?.charmIndex !== undefined && necklace) {
+      execute(removeCharmCommand(necklace, drag.charmIndex))
+    }
+    setDrag(null)
+  }, [drag, necklace, execute])
+
+  return { drag, dropTargets, startDrag, dropOnPoint, removeDragged }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+
+export interface CrossfadeLayer<T> {
+  value: T
+  weight: number // 0-1; the weights of all layers add up to one
+}
+
+/**
+ * Fades between values of a preset over `duration` seconds. Returns the
+ * values to render, each with its weight, newest last. Changing the value
+ * again mid-fade fades out everything that's showing, so rapid switches
+ * never jump.
+ */
+export const useCrossfade = <T>(value: T, duration = 0.8): CrossfadeLayer<T>[] => {
+  const [layers, setLayers] = useState<CrossfadeLayer<T>[]>(() => [{ value, weight: 1 }])
+
+  useEffect(() => {
+    setLayers(prev => {
+      if (prev[prev.length - 1].value === value) return prev
+      if (duration <= 0) return [{ value, weight: 1 }]
+      // A value that's still fading out fades back in from where it is
+      const existing = prev.find(layer => layer.value === value)
+      return [...prev.filter(layer => layer !== existing), { value, weight: existing?.weight ?? 0 }]
+    })
+  }, [value, duration])
+
+  useFrame((_state, delta) => {
+    if (layers.length === 1) return
+    setLayers(prev => {
+      const incoming = prev[prev.length - 1]
+      const weight = Math.min(1, incoming.weight + delta / duration)
+      if (weight >= 1) return [{ value: incoming.value, weight: 1 }]
+
+      // Outgoing layers share what's left in proportion to their weights
+      const outgoing = prev.slice(0, -1)
+      const outgoingTotal = outgoing.reduce((sum, layer) => sum + layer.weight, 0)
+      return [
+        ...outgoing.map(layer => ({
+          value: layer.value,
+          weight: outgoingTotal > 0 ? (layer.weight / outgoingTotal) * (1 - weight) : (1 - weight) / outgoing.length,
+        })),
+        { value: incoming.value, weight },
+      ]
+    })
+  })
+
+  return layers
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createHistory, executeCommand, parseHistory, redo, serializeHistory, undo } from '../utils/designHistory'
+import type { DesignHistory } from '../utils/designHistory'
+import type { DesignCommand, Necklace } from '../types'
+
+const STORAGE_PREFIX = 'play3d.design-history.'
+
+export interface DesignHistoryState {
+  necklace: Necklace | undefined // The design with every applied edit
+  execute: (command: DesignCommand) => void
+  undo: () => void
+  redo: () => void
+  canUndo: boolean
+  canRedo: boolean
+}
+
+const loadSavedHistory = (necklaceId: string): DesignHistory | null => {
+  const saved = localStorage.getItem(STORAGE_PREFIX + necklaceId)
+  if (!saved) return null
+  try {
+    return parseHistory(JSON.parse(saved))
+  } catch (error) {
+    console.warn(`Discarding saved history for ${necklaceId}`, error)
+    localStorage.removeItem(STORAGE_PREFIX + necklaceId)
+    return null
+  }
+}
+
+// Text fields keep their own undo
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && ['text', 'search', 'number'].includes(target.type)) ||
+  (target instanceof HTMLElement && target.isContentEditable)
+
+// History for a design that isn't saved, kept with the design it started from
+interface UnsavedHistory {
+  source: Necklace
+  history: DesignHistory
+}
+
+/**
+ * Undo/redo history for each necklace design, saved to localStorage so it
+ * survives a reload. Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes;
+ * Cmd works in place of Ctrl. With persist off (designs opened from a
+ * shared link) the history is neither restored nor saved, and is kept
+ * apart from the catalog's: shared designs reuse catalog IDs. It starts
+ * over whenever a different design is opened.
+ */
+export const useDesignHistory = (
+  necklace: Necklace | undefined,
+  { shortcuts = true, persist = true }: { shortcuts?: boolean; persist?: boolean } = {}
+): DesignHistoryState => {
+  const [histories, setHistories] = useState<Record<string, DesignHistory>>({})
+  const [unsaved, setUnsaved] = useState<UnsavedHistory | null>(null)
+  const necklaceId = necklace?.id
+
+  const restored = useMemo(() => {
+    return persist && necklaceId && !histories[necklaceId] ? loadSavedHistory(necklaceId) : null
+  }, [persist, necklaceId, histories])
+  const history = persist
+    ? (necklaceId && histories[necklaceId]) || restored
+    : unsaved && unsaved.source === necklace ? unsaved.history : null
+
+  const update = useCallback((change: (history: DesignHistory) => DesignHistory) => {
+    if (!necklace) return
+    if (!persist) {
+      setUnsaved(prev => ({
+        source: necklace,
+        history: change(prev?.source === necklace ? prev.history : createHistory(necklace)),
+      }))
+      return
+    }
+    setHistories(prev => ({
+      ...prev,
+      [necklace.id]: change(prev[necklace.id] ?? restored ?? createHistory(necklace)),
+    }))
+  }, [necklace, persist, restored])
+
+  const execute = useCallback((command: DesignCommand) => update(history => executeCommand(history, command)), [update])
+  const undoLast = useCallback(() => update(undo), [update])
+  const redoLast = useCallback(() => update(redo), [update])
+
+  useEffect(() => {
+    if (!persist || !necklaceId || !histories[necklaceId]) return
+    localStorage.setItem(STORAGE_PREFIX + necklaceId, JSON.stringify(serializeHistory(histories[necklaceId])))
+  }, [persist, necklaceId, histories])
+
+  useEffect(() => {
+    if (!shortcuts) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditingText(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        undoLast()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        redoLast()
+      } else {
+        return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [shortcuts, undoLast, redoLast])
+
+  return {
+    necklace: history?.present ?? necklace,
+    execute,
+    undo: undoLast,
+    redo: redoLast,
+    canUndo: (history?.past.length ?? 0) > 0,
+    canRedo: (history?.future.length ?? 0) > 0,
+  }
+}
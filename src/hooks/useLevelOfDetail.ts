@@ -0,0 +1,31 @@
+import { useMemo, useRef, useState, type RefObject } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { LOD_HYSTERESIS, selectDetailLevel } from '../utils/levelOfDetail'
+
+/**
+ * Detail level for an object from its distance to the camera; see
+ * selectDetailLevel. Checked every frame, but only re-renders when the
+ * level changes.
+ */
+export const useLevelOfDetail = (
+  objectRef: RefObject<THREE.Object3D | null>,
+  distances: readonly number[],
+  hysteresis: number = LOD_HYSTERESIS
+) => {
+  const [level, setLevel] = useState(0)
+  const current = useRef(0)
+  const worldPosition = useMemo(() => new THREE.Vector3(), [])
+
+  useFrame(({ camera }) => {
+    if (!objectRef.current || distances.length === 0) return
+    objectRef.current.getWorldPosition(worldPosition)
+    const next = selectDetailLevel(camera.position.distanceTo(worldPosition), current.current, distances, hysteresis)
+    if (next !== current.current) {
+      current.current = next
+      setLevel(next)
+    }
+  })
+
+  return Math.min(level, distances.length)
+}
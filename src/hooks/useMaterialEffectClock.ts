@@ -0,0 +1,9 @@
+import { useFrame } from '@react-three/fiber'
+import { materialEffectTime } from '../utils/materialEffects'
+
+// Advance the clock every animated highlight reads; call once, inside the canvas
+export const useMaterialEffectClock = () => {
+  useFrame(({ clock }) => {
+    materialEffectTime.value = clock.elapsedTime
+  })
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { materialRegistry, type MaterialPreset } from '../utils/materialRegistry'
+
+// Every registered material preset, updating as the user saves or removes their own
+export const useMaterialPresets = (): MaterialPreset[] => {
+  return useSyncExternalStore(materialRegistry.subscribe, materialRegistry.getPresets)
+}
@@ -1,88 +1,86 @@
-import { useGLTF } from '@react-three/drei'
-import { useEffect, useState } from 'react'
-import type { GLTF } from 'three-stdlib'
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+import {
+  getModelEntries,
+  getModelEntry,
+  getModelUrl,
+  requestModel,
+  retryModel,
+  subscribeToModels,
+  type ModelAsset,
+  type ModelCodecs,
+  type ModelLoadEntry,
+} from '../utils/modelLoader'
 
 export interface ModelLoadingState {
-  model: GLTF | null
+  model: ModelAsset // The loaded model, or the fallback while loading and after a failure
   isLoading: boolean
+  isFallback: boolean
+  progress: number // 0–1
+  codecs: ModelCodecs | null // Once loaded
   error: string | null
+  retry: () => void
+  variant: number // Which of modelPath and its lodModelPaths is shown (0 is modelPath); -1 for the fallback
 }
 
-export const useNecklaceLoader = (modelPath: string): ModelLoadingState => {
-  const [state, setState] = useState<ModelLoadingState>({
-    model: null,
-    isLoading: true,
-    error: null,
-  })
+/**
+ * Load a necklace or charm model without suspending. Shows the fallback
+ * (from createFallbackGLTF) until the model arrives, and for good if it
+ * can't be loaded; temporary failures are retried with backoff first.
+ *
+ * With LOD variants, only the one for the detail level is loaded; until it
+ * arrives the nearest variant already loaded stays on screen.
+ */
+export const useNecklaceLoader = (
+  modelPath: string | undefined,
+  fallback: ModelAsset,
+  lodModelPaths: string[] = [],
+  level: number = 0
+): ModelLoadingState => {
+  const urls = [modelPath, ...lodModelPaths].map(getModelUrl)
+  const selected = Math.min(level, urls.length - 1)
+  const url = urls[selected]
 
   useEffect(() => {
-    // Reset state when model path changes
-    setState({
-      model: null,
-      isLoading: true,
-      error: null,
-    })
-  }, [modelPath])
+    if (url) requestModel(url)
+  }, [url])
 
-  try {
-    // Load the GLTF model
-    const gltf = useGLTF(modelPath)
-    
-    useEffect(() => {
-      if (gltf) {
-        setState({
-          model: gltf,
-          isLoading: false,
-          error: null,
-        })
-      }
-    }, [gltf])
+  const entry = useSyncExternalStore(subscribeToModels, () => (url ? getModelEntry(url) : undefined))
+  const entries = useSyncExternalStore(subscribeToModels, getModelEntries)
 
-  } catch (error) {
-    useEffect(() => {
-      setState({
-        model: null,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to load model',
-      })
-    }, [error])
-  }
+  const retry = useCallback(() => {
+    if (url) retryModel(url)
+  }, [url])
 
-  return state
-}
+  // The selected variant, else the closest loaded one, preferring more detail
+  let variant = -1
+  let model: ModelAsset | null = null
+  for (const [index, variantUrl] of urls.entries()) {
+    const variantModel = entries.find((candidate) => candidate.url === variantUrl && candidate.status === 'loaded')?.model
+    if (variantModel && (variant < 0 || Math.abs(index - selected) < Math.abs(variant - selected))) {
+      variant = index
+      model = variantModel
+    }
+  }
 
-// Preload function for better performance
-export const preloadNecklaceModel = (modelPath: string) => {
-  try {
-    useGLTF.preload(modelPath)
-  } catch (error) {
-    console.warn(`Failed to preload model: ${modelPath}`, error)
+  return {
+    model: model ?? fallback,
+    isLoading: Boolean(url) && (!entry || entry.status === 'loading'),
+    isFallback: !model,
+    progress: entry?.progress ?? 0,
+    codecs: entry?.codecs ?? null,
+    error: entry?.error ?? null,
+    retry,
+    variant,
   }
 }
 
-// Utility function to get fallback model paths
-export const getModelPath = (modelPath: string, type: 'necklace' | 'charm'): string => {
-  // If the model path is not available, return a fallback
-  if (!modelPath || modelPath.startsWith('/models/')) {
-    // For demo purposes, we'll create fallback paths
-    switch (type) {
-      case 'necklace':
-        return '/models/fallback/chain.gltf'
-      case 'charm':
-        return '/models/fallback/charm.gltf'
-      default:
-        return '/models/fallback/default.gltf'
-    }
-  }
-  return modelPath
+// Every model requested so far, for loading indicators
+export const useModelLoadProgress = (): ModelLoadEntry[] => {
+  return useSyncExternalStore(subscribeToModels, getModelEntries)
 }
 
-// Model validation utility
-export const validateModel = (gltf: GLTF): boolean => {
-  try {
-    // Basic validation - check if the model has a scene
-    return !!(gltf?.scene && gltf.scene.children.length > 0)
-  } catch {
-    return false
-  }
-} 
\ No newline at end of file
+// Start loading a model before it's shown
+export const preloadNecklaceModel = (modelPath: string) => {
+  const url = getModelUrl(modelPath)
+  if (url) requestModel(url)
+}
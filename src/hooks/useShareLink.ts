@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { createShareUrl, decodeShareLink, isShareLink } from '../utils/shareLink'
+import type { ShareLinkState } from '../types'
+
+/**
+ * Opens share links: calls onOpen with the decoded view when the page
+ * loads with a `#share=` fragment or the fragment changes to one. `share`
+ * puts a view in the address bar and copies its URL to the clipboard.
+ */
+export const useShareLink = (onOpen: (state: ShareLinkState) => void) => {
+  // Latest callback without re-subscribing to hashchange
+  const openRef = useRef(onOpen)
+  useEffect(() => {
+    openRef.current = onOpen
+  }, [onOpen])
+
+  useEffect(() => {
+    let cancelled = false
+    const open = async () => {
+      const fragment = window.location.hash
+      if (!isShareLink(fragment)) return
+      try {
+        const state = await decodeShareLink(fragment)
+        if (!cancelled) openRef.current(state)
+      } catch (error) {
+        console.warn('Could not open share link', error)
+      }
+    }
+
+    open()
+    window.addEventListener('hashchange', open)
+    return () => {
+      cancelled = true
+      window.removeEventListener('hashchange', open)
+    }
+  }, [])
+
+  const share = useCallback(async (state: ShareLinkState) => {
+    const url = await createShareUrl(state)
+    // Replacing the entry doesn't fire hashchange, so the view isn't reapplied
+    window.history.replaceState(null, '', url)
+    await navigator.clipboard?.writeText(url)
+    return url
+  }, [])
+
+  return { share }
+}
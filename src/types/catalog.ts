@@ -0,0 +1,50 @@
+import type { Charm, JewelryMaterial, Necklace, NecklaceCollection } from './necklace'
+import type { CharmJSON, CharmPlacementJSON, NecklaceBaseJSON, NecklaceJSON } from './serialization'
+
+// Collection manifests are design files with shared parts pulled out:
+// materials, charms and bases are declared once and referenced by ID from
+// any manifest in the catalog.
+
+// A material ID from a manifest's `materials`, a material preset ID, a material database key
+// (e.g. 'sapphire'), or an inline material
+export type MaterialReference = string | JewelryMaterial
+
+export interface CharmManifestEntry extends Omit<CharmJSON, 'material'> {
+  material: MaterialReference
+}
+
+export interface NecklaceBaseManifestEntry extends Omit<NecklaceBaseJSON, 'material'> {
+  material: MaterialReference
+}
+
+export interface NecklaceManifestEntry extends Omit<NecklaceJSON, 'base' | 'charms'> {
+  base: string | NecklaceBaseManifestEntry // Base ID or inline base
+  charms: Array<Omit<CharmPlacementJSON, 'charm'> & {
+    charm: string | CharmManifestEntry // Charm ID or inline charm
+  }>
+}
+
+export interface CollectionManifest {
+  schemaVersion: number
+  id: string
+  name: string
+  description: string
+  featured: string[]
+  materials?: Record<string, JewelryMaterial>
+  charms?: CharmManifestEntry[]
+  bases?: NecklaceBaseManifestEntry[]
+  necklaces: NecklaceManifestEntry[]
+}
+
+// Entry point listing the manifests to load, relative to the index file
+export interface CatalogIndex {
+  collections: string[]
+}
+
+// Everything the viewer can show, with references resolved
+export interface Catalog {
+  collections: NecklaceCollection[]
+  necklaces: Necklace[]
+  charms: Charm[] // Every charm declared or used in the catalog, for the designer palette
+  featured: string[] // Featured necklace IDs across all collections, in manifest order
+}
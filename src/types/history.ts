@@ -0,0 +1,26 @@
+import type { JewelryMaterial } from './necklace'
+import type { CharmPlacementJSON, DesignDocument } from './serialization'
+
+// Edits to a necklace design. Commands are plain JSON so the history can be
+// saved; each carries enough to be undone.
+export type DesignCommand =
+  | { type: 'add-charm'; charmIndex: number; placement: CharmPlacementJSON }
+  | { type: 'remove-charm'; charmIndex: number; placement: CharmPlacementJSON }
+  | { type: 'move-charm'; charmIndex: number; from: CharmPlacementJSON; to: CharmPlacementJSON } // Whole placements, so undo brings back custom transforms
+  | { type: 'set-base-material'; from: JewelryMaterial; to: JewelryMaterial }
+  | { type: 'set-charm-material'; charmIndex: number; from: JewelryMaterial; to: JewelryMaterial }
+  | { type: 'set-base-length'; from: number; to: number }
+
+export interface HistoryEntry {
+  command: DesignCommand
+  timestamp: number // ms since epoch, used to merge rapid repeats of the same edit
+}
+
+// Saved form of a design's history: the design it started from plus the
+// undo and redo stacks, each with its next entry last
+export interface DesignHistoryJSON {
+  schemaVersion: number
+  initial: DesignDocument<'necklace'>
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
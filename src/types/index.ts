@@ -1,5 +1,12 @@
 // Export all types from necklace module
 export * from './necklace'
+export * from './materialDatabase'
+export * from './serialization'
+export * from './catalog'
+export * from './placement'
+export * from './history'
+export * from './pricing'
+export * from './shareLink'
 
 // Re-export commonly used Three.js types for convenience
 export type { Vector3 } from 'three'
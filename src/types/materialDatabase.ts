@@ -0,0 +1,354 @@
+import type { JewelryMaterial } from './necklace'
+
+// Gems in the reference database
+export type GemKey =
+  | 'diamond'
+  | 'ruby'
+  | 'sapphire'
+  | 'emerald'
+  | 'aquamarine'
+  | 'amethyst'
+  | 'citrine'
+  | 'topaz'
+  | 'peridot'
+  | 'garnet'
+  | 'spinel'
+  | 'tourmaline'
+  | 'cubic-zirconia'
+  | 'moissanite'
+
+// Metals and alloys in the reference database
+export type MetalKey =
+  | 'gold-24k'
+  | 'gold-18k'
+  | 'rose-gold-18k'
+  | 'white-gold-18k'
+  | 'gold-14k'
+  | 'silver-925'
+  | 'platinum-950'
+  | 'titanium'
+
+export type MaterialDatabaseKey = GemKey | MetalKey
+
+// A colour a gem is commonly found in, from pale to deeply saturated stones
+export interface GemColorRange {
+  name: string // e.g. 'Pigeon blood'
+  lightest: string // Hex, sRGB
+  typical: string
+  deepest: string
+}
+
+export interface GemData {
+  type: 'gemstone'
+  name: string
+  species: string // Mineral, e.g. 'Corundum' for ruby and sapphire
+  refractiveIndex: number // nD, at 589 nm; the lower index for doubly refractive stones
+  dispersion: number // nG − nB (431–687 nm), as gemmologists quote it
+  birefringence: number // Difference between the two refractive indices; 0 for singly refractive stones
+  hardness: number // Mohs
+  density: number // g/cm³ (specific gravity)
+  transparency: number // 0–1 as rendered, for a typical clean stone
+  colors: GemColorRange[] // Most valued first
+}
+
+export interface MetalData {
+  type: 'metal'
+  name: string
+  karat?: number // Gold alloys only
+  fineness: number // Parts per thousand of the precious metal
+  composition: Record<string, number> // Mass fraction by element symbol, summing to 1
+  density: number // g/cm³
+  reflectance: string // Measured reflectance at normal incidence (F0), as sRGB hex
+}
+
+export type MaterialData = GemData | MetalData
+
+// Gem reference data, after GIA. Colours are approximate.
+export const GEM_DATABASE: Record<GemKey, GemData> = {
+  'diamond': {
+    type: 'gemstone',
+    name: 'Diamond',
+    species: 'Diamond',
+    refractiveIndex: 2.417,
+    dispersion: 0.044,
+    birefringence: 0,
+    hardness: 10,
+    density: 3.52,
+    transparency: 0.95,
+    colors: [
+      { name: 'Colourless', lightest: '#FFFFFF', typical: '#FFFFFF', deepest: '#F7F1DE' },
+      { name: 'Yellow', lightest: '#FFF6C8', typical: '#FFE066', deepest: '#F2B900' },
+      { name: 'Pink', lightest: '#FBE3EA', typical: '#F4A6BE', deepest: '#D9527D' },
+      { name: 'Blue', lightest: '#E2EEF8', typical: '#9CC3E6', deepest: '#3F7FBF' },
+    ],
+  },
+  'ruby': {
+    type: 'gemstone',
+    name: 'Ruby',
+    species: 'Corundum',
+    refractiveIndex: 1.762,
+    dispersion: 0.018,
+    birefringence: 0.008,
+    hardness: 9,
+    density: 4.0,
+    transparency: 0.7,
+    colors: [
+      { name: 'Pigeon blood', lightest: '#E8456B', typical: '#E0115F', deepest: '#9B0A2E' },
+      { name: 'Pinkish red', lightest: '#F07A9A', typical: '#DE3163', deepest: '#A5153F' },
+    ],
+  },
+  'sapphire': {
+    type: 'gemstone',
+    name: 'Sapphire',
+    species: 'Corundum',
+    refractiveIndex: 1.762,
+    dispersion: 0.018,
+    birefringence: 0.008,
+    hardness: 9,
+    density: 4.0,
+    transparency: 0.75,
+    colors: [
+      { name: 'Cornflower blue', lightest: '#6F8FD8', typical: '#0F52BA', deepest: '#082567' },
+      { name: 'Padparadscha', lightest: '#FBC4AB', typical: '#F7986C', deepest: '#E56B4E' },
+      { name: 'Yellow', lightest: '#FFF2A8', typical: '#FFD23F', deepest: '#E0A800' },
+      { name: 'Pink', lightest: '#F9C9DC', typical: '#F07AA8', deepest: '#C2185B' },
+    ],
+  },
+  'emerald': {
+    type: 'gemstone',
+    name: 'Emerald',
+    species: 'Beryl',
+    refractiveIndex: 1.577,
+    dispersion: 0.014,
+    birefringence: 0.006,
+    hardness: 7.75,
+    density: 2.72,
+    transparency: 0.8,
+    colors: [
+      { name: 'Green', lightest: '#8FD9A8', typical: '#50C878', deepest: '#046307' },
+    ],
+  },
+  'aquamarine': {
+    type: 'gemstone',
+    name: 'Aquamarine',
+    species: 'Beryl',
+    refractiveIndex: 1.577,
+    dispersion: 0.014,
+    birefringence: 0.005,
+    hardness: 7.75,
+    density: 2.69,
+    transparency: 0.9,
+    colors: [
+      { name: 'Blue', lightest: '#DDF3F7', typical: '#7FCCE0', deepest: '#2E8BB8' },
+    ],
+  },
+  'amethyst': {
+    type: 'gemstone',
+    name: 'Amethyst',
+    species: 'Quartz',
+    refractiveIndex: 1.544,
+    dispersion: 0.013,
+    birefringence: 0.009,
+    hardness: 7,
+    density: 2.65,
+    transparency: 0.85,
+    colors: [
+      { name: 'Purple', lightest: '#D8C2EC', typical: '#9966CC', deepest: '#5B2A86' },
+    ],
+  },
+  'citrine': {
+    type: 'gemstone',
+    name: 'Citrine',
+    species: 'Quartz',
+    refractiveIndex: 1.544,
+    dispersion: 0.013,
+    birefringence: 0.009,
+    hardness: 7,
+    density: 2.65,
+    transparency: 0.9,
+    colors: [
+      { name: 'Yellow to orange', lightest: '#FBEFB0', typical: '#E4B22B', deepest: '#B5651D' },
+    ],
+  },
+  'topaz': {
+    type: 'gemstone',
+    name: 'Topaz',
+    species: 'Topaz',
+    refractiveIndex: 1.619,
+    dispersion: 0.014,
+    birefringence: 0.01,
+    hardness: 8,
+    density: 3.53,
+    transparency: 0.9,
+    colors: [
+      { name: 'Imperial', lightest: '#F9CF9A', typical: '#F0A04B', deepest: '#C4622D' },
+      { name: 'Blue', lightest: '#D3ECF7', typical: '#6FB7E0', deepest: '#1F6FA8' },
+      { name: 'Colourless', lightest: '#FFFFFF', typical: '#FAFAFA', deepest: '#F0F0F0' },
+    ],
+  },
+  'peridot': {
+    type: 'gemstone',
+    name: 'Peridot',
+    species: 'Olivine',
+    refractiveIndex: 1.654,
+    dispersion: 0.02,
+    birefringence: 0.036,
+    hardness: 6.75,
+    density: 3.34,
+    transparency: 0.85,
+    colors: [
+      { name: 'Yellowish green', lightest: '#D4EB8A', typical: '#A6C13C', deepest: '#5E7D12' },
+    ],
+  },
+  'garnet': {
+    type: 'gemstone',
+    name: 'Garnet',
+    species: 'Garnet (pyrope-almandine)',
+    refractiveIndex: 1.76,
+    dispersion: 0.024,
+    birefringence: 0,
+    hardness: 7.25,
+    density: 3.9,
+    transparency: 0.65,
+    colors: [
+      { name: 'Red', lightest: '#B8323F', typical: '#7B1113', deepest: '#4A0A0E' },
+      { name: 'Tsavorite green', lightest: '#7FD68B', typical: '#2E9E4F', deepest: '#0F5F2A' },
+    ],
+  },
+  'spinel': {
+    type: 'gemstone',
+    name: 'Spinel',
+    species: 'Spinel',
+    refractiveIndex: 1.718,
+    dispersion: 0.02,
+    birefringence: 0,
+    hardness: 8,
+    density: 3.6,
+    transparency: 0.8,
+    colors: [
+      { name: 'Red', lightest: '#F06080', typical: '#D1193E', deepest: '#8B0F2A' },
+      { name: 'Cobalt blue', lightest: '#7B93E0', typical: '#2545B8', deepest: '#12246E' },
+    ],
+  },
+  'tourmaline': {
+    type: 'gemstone',
+    name: 'Tourmaline',
+    species: 'Tourmaline',
+    refractiveIndex: 1.624,
+    dispersion: 0.017,
+    birefringence: 0.018,
+    hardness: 7.25,
+    density: 3.06,
+    transparency: 0.8,
+    colors: [
+      { name: 'Paraíba', lightest: '#A8F0EA', typical: '#2FD5D0', deepest: '#0A8F9E' },
+      { name: 'Pink', lightest: '#F9C6D8', typical: '#EC6F9E', deepest: '#B0245A' },
+      { name: 'Green', lightest: '#A9D8A0', typical: '#4E9A4A', deepest: '#1E5428' },
+    ],
+  },
+  'cubic-zirconia': {
+    type: 'gemstone',
+    name: 'Cubic Zirconia',
+    species: 'Zirconium dioxide (synthetic)',
+    refractiveIndex: 2.15,
+    dispersion: 0.06,
+    birefringence: 0,
+    hardness: 8.25,
+    density: 5.8,
+    transparency: 0.95,
+    colors: [
+      { name: 'Colourless', lightest: '#FFFFFF', typical: '#FFFFFF', deepest: '#FFFFFF' },
+    ],
+  },
+  'moissanite': {
+    type: 'gemstone',
+    name: 'Moissanite',
+    species: 'Silicon carbide',
+    refractiveIndex: 2.648,
+    dispersion: 0.104,
+    birefringence: 0.043,
+    hardness: 9.25,
+    density: 3.21,
+    transparency: 0.95,
+    colors: [
+      { name: 'Near colourless', lightest: '#FFFFFF', typical: '#FBFBF2', deepest: '#F2F0D8' },
+    ],
+  },
+}
+
+// Jewellery alloys. Reflectance is measured for the pure metals and
+// typical for the alloys; white gold is as rhodium plated.
+export const METAL_DATABASE: Record<MetalKey, MetalData> = {
+  'gold-24k': {
+    type: 'metal',
+    name: '24K Pure Gold',
+    karat: 24,
+    fineness: 999,
+    composition: { Au: 0.999, Ag: 0.001 },
+    density: 19.32,
+    reflectance: '#FFE39D',
+  },
+  'gold-18k': {
+    type: 'metal',
+    name: '18K Gold',
+    karat: 18,
+    fineness: 750,
+    composition: { Au: 0.75, Ag: 0.125, Cu: 0.125 },
+    density: 15.6,
+    reflectance: '#FDE7B3',
+  },
+  'rose-gold-18k': {
+    type: 'metal',
+    name: 'Rose Gold',
+    karat: 18,
+    fineness: 750,
+    composition: { Au: 0.75, Cu: 0.2225, Ag: 0.0275 },
+    density: 15.1,
+    reflectance: '#FCDAC4',
+  },
+  'white-gold-18k': {
+    type: 'metal',
+    name: 'White Gold',
+    karat: 18,
+    fineness: 750,
+    composition: { Au: 0.75, Pd: 0.1, Ag: 0.15 },
+    density: 15.2,
+    reflectance: '#E1DFDD',
+  },
+  'gold-14k': {
+    type: 'metal',
+    name: '14K Gold',
+    karat: 14,
+    fineness: 585,
+    composition: { Au: 0.585, Ag: 0.2, Cu: 0.215 },
+    density: 13.1,
+    reflectance: '#FCE7BC',
+  },
+  'silver-925': {
+    type: 'metal',
+    name: '925 Silver',
+    fineness: 925,
+    composition: { Ag: 0.925, Cu: 0.075 },
+    density: 10.36,
+    reflectance: '#FAF9F3',
+  },
+  'platinum-950': {
+    type: 'metal',
+    name: 'Platinum',
+    fineness: 950,
+    composition: { Pt: 0.95, Ir: 0.05 },
+    density: 21.45,
+    reflectance: '#D6D1C9',
+  },
+  'titanium': {
+    type: 'metal',
+    name: 'Titanium',
+    fineness: 990,
+    composition: { Ti: 0.99, Fe: 0.003, O: 0.007 },
+    density: 4.51,
+    reflectance: '#C2BBB3',
+  },
+}
+
+// A database entry with the material fields it renders with changed, e.g. a brushed finish
+export type MaterialOverrides = Partial<Omit<JewelryMaterial, 'type' | 'databaseKey'>>
@@ -1,4 +1,5 @@
 import * as THREE from 'three'
+import { METAL_DATABASE, type MaterialDatabaseKey } from './materialDatabase'
 
 // Material types for jewelry
 export interface JewelryMaterial {
@@ -8,38 +9,74 @@ export interface JewelryMaterial {
   metallic?: number
   roughness?: number
   transparency?: number
-  refraction?: number
+  refraction?: number // Refractive index (nD, at 589 nm)
+  dispersion?: number // nG − nB, the spread of refractive index between violet (431 nm) and red (687 nm) light, as gemmologists quote it
   textureUrl?: string
   normalMapUrl?: string
+  databaseKey?: MaterialDatabaseKey // Reference entry the material was made from; its facts (density, hardness…) apply
 }
 
-// Common metals for necklaces
+// Animated highlights layered over a material's own shading
+export type MaterialEffect = 'shimmer' | 'pulse' | 'rainbow' | 'sparkle'
+
+// Common metals for necklaces, coloured by their measured reflectance
 export const METALS = {
-  GOLD_18K: { type: 'metal', name: '18K Gold', color: '#FFD700', metallic: 1, roughness: 0.1 },
-  SILVER_925: { type: 'metal', name: '925 Silver', color: '#C0C0C0', metallic: 1, roughness: 0.15 },
-  PLATINUM: { type: 'metal', name: 'Platinum', color: '#E5E4E2', metallic: 1, roughness: 0.1 },
-  ROSE_GOLD: { type: 'metal', name: 'Rose Gold', color: '#E8B4B8', metallic: 1, roughness: 0.1 },
+  GOLD_18K: { type: 'metal', name: '18K Gold', color: METAL_DATABASE['gold-18k'].reflectance, metallic: 1, roughness: 0.1, databaseKey: 'gold-18k' },
+  SILVER_925: { type: 'metal', name: '925 Silver', color: METAL_DATABASE['silver-925'].reflectance, metallic: 1, roughness: 0.15, databaseKey: 'silver-925' },
+  PLATINUM: { type: 'metal', name: 'Platinum', color: METAL_DATABASE['platinum-950'].reflectance, metallic: 1, roughness: 0.1, databaseKey: 'platinum-950' },
+  ROSE_GOLD: { type: 'metal', name: 'Rose Gold', color: METAL_DATABASE['rose-gold-18k'].reflectance, metallic: 1, roughness: 0.1, databaseKey: 'rose-gold-18k' },
 } as const
 
+// Real-world scale: an 18" (457.2 mm) chain is 8 units long
+export const MILLIMETRES_PER_UNIT = 457.2 / 8
+
+// Charms are drawn larger than life so they read against the chain: a
+// charm 1 unit across stands for one this many millimetres across at size 1
+export const CHARM_MILLIMETRES_PER_UNIT = 15
+
+// Link styles for procedural chains
+export type ChainStyle = 'cable' | 'curb' | 'rope' | 'box' | 'figaro' | 'singapore' | 'snake'
+
 // Attachment point for charms on the necklace
 export interface AttachmentPoint {
   id: string
-  position: THREE.Vector3Tuple // [x, y, z] position on the necklace
-  rotation: THREE.Euler // Rotation for proper charm orientation
+  position: THREE.Vector3Tuple // [x, y, z] position on the necklace, snapped to the nearest point on the chain
+  pathParameter?: number // Place along the chain by arc length (0-1); takes precedence over position
+  rotation: THREE.Euler // Rotation relative to the chain's frame at this point
   type: 'link' | 'clasp' | 'centerpiece' | 'segment' // Type of attachment
   maxCharmSize: number // Maximum size of charm that can be attached
   occupied: boolean // Whether this point has a charm attached
 }
 
+// Standard cuts the gemstone generator can produce
+export type GemCut = 'round-brilliant' | 'princess' | 'emerald' | 'oval' | 'pear' | 'marquise' | 'cushion' | 'cabochon'
+
+// A cut's proportions as graded, as percentages of the stone's width
+export interface GemCutProportions {
+  table: number // Table width, %; unused for cabochons
+  crownAngle: number // Degrees from the girdle plane; how steeply a cabochon's dome rises
+  pavilionDepth: number // %; 0 gives a cabochon its flat back
+  girdle: number // Girdle thickness, %
+}
+
+// A stone generated from its cut and weight rather than a model file
+export interface GemSpecification {
+  cut: GemCut
+  carat: number // 0.2 g each; with the material's density, sets the stone's size
+  proportions?: Partial<GemCutProportions> // Defaults per cut in GEM_CUT_PROPORTIONS
+}
+
 // Individual charm/pendant definition
 export interface Charm {
   id: string
   name: string
   type: 'pendant' | 'bead' | 'gemstone' | 'ornament'
   modelPath: string // Path to 3D model file
+  lodModelPaths?: string[] // Simpler variants of the model for viewing from further away, most detailed first
+  gem?: GemSpecification // Cut stone shown instead of the generic stand-in while there's no model (modelPath can be empty)
   material: JewelryMaterial
   size: number // Relative size (0.1 to 2.0)
-  weight: number // Affects physics simulation
+  weight: number // Grams, estimated from the model's volume and material density; loads the physics simulation
   attachmentType: AttachmentPoint['type'] // Which attachment points this charm can use
   metadata?: {
     description?: string
@@ -55,8 +92,12 @@ export interface NecklaceBase {
   name: string
   type: 'chain' | 'cord' | 'beaded' | 'wire'
   modelPath: string
+  lodModelPaths?: string[] // As for Charm
   material: JewelryMaterial
   length: number // Length in 3D units
+  chainStyle?: ChainStyle // Link style when type is 'chain' (defaults to cable)
+  linkGauge?: number // Link wire thickness in millimetres
+  linkLength?: number // Outer length of a single link in millimetres
   attachmentPoints: AttachmentPoint[] // Where charms can be attached
   physics: {
     segments: number // Number of physics segments for simulation
@@ -65,17 +106,20 @@ export interface NecklaceBase {
   }
 }
 
+// A charm hung on one of the base's attachment points
+export interface CharmPlacement {
+  charm: Charm
+  attachmentPointId: string
+  customPosition?: THREE.Vector3Tuple // Override position if needed
+  customRotation?: THREE.Euler // Override rotation if needed
+}
+
 // Complete necklace with base and attached charms
 export interface Necklace {
   id: string
   name: string
   base: NecklaceBase
-  charms: Array<{
-    charm: Charm
-    attachmentPointId: string
-    customPosition?: THREE.Vector3Tuple // Override position if needed
-    customRotation?: THREE.Euler // Override rotation if needed
-  }>
+  charms: CharmPlacement[]
   displaySettings: {
     defaultCameraPosition: THREE.Vector3Tuple
     defaultCameraTarget: THREE.Vector3Tuple
@@ -111,6 +155,8 @@ export interface ViewerState {
   lighting: 'studio' | 'natural' | 'dramatic' | 'soft' | 'jewelry-studio'
   showPhysics: boolean
   showAttachmentPoints: boolean
+  editMode: boolean // Drag charms on, between and off attachment points
+  highlight: MaterialEffect | 'none' // Animated highlight on the whole piece
 }
 
 // Animation states for necklaces
@@ -125,4 +171,5 @@ export interface AnimationState {
 export type MaterialType = JewelryMaterial['type']
 export type CharmType = Charm['type']
 export type NecklaceType = NecklaceBase['type']
-export type AttachmentType = AttachmentPoint['type'] 
\ No newline at end of file
+export type AttachmentType = AttachmentPoint['type']
+export type LightingPreset = ViewerState['lighting'] 
\ No newline at end of file
@@ -0,0 +1,16 @@
+// Diagnostics from checking where charms sit on a necklace
+export type PlacementRule =
+  | 'incompatible-type' // Charm's attachmentType doesn't match the point's type
+  | 'charm-too-large' // Charm size exceeds the point's maxCharmSize
+  | 'point-overcrowded' // More than one charm on a point
+  | 'unknown-attachment-point' // attachmentPointId names no point on the base
+  | 'occupied-mismatch' // Point's occupied flag disagrees with the charms on it
+
+export interface PlacementDiagnostic {
+  rule: PlacementRule
+  severity: 'error' | 'warning'
+  message: string
+  charmIndex?: number // Index into Necklace.charms
+  charmId?: string
+  attachmentPointId?: string
+}
@@ -0,0 +1,49 @@
+import type { ChainStyle, Charm, MaterialType } from './necklace'
+
+// Prices used to build quotes, all in the table's currency
+export interface PriceTable {
+  currency: string // ISO 4217 code, e.g. 'USD'
+  basePerInch: Record<string, number> // By material name, e.g. '18K Gold'
+  basePerInchByType: Record<MaterialType, number> // For materials not listed by name
+  chainStyleFactor: Record<ChainStyle, number> // Multiplier on chain price for more intricate links
+  charmByType: Record<Charm['type'], number> // For charms without metadata.price
+  labor: {
+    assembly: number // Once per necklace
+    perCharm: number // Fitting each charm
+  }
+  engraving: {
+    setup: number
+    perCharacter: number // Spaces are free
+    maxCharacters: number
+  }
+}
+
+export interface RoundingRule {
+  increment: number // e.g. 0.01 for cents, 5 for the nearest five
+  mode: 'nearest' | 'up' | 'down'
+}
+
+export interface QuoteOptions {
+  engraving?: string
+  locale?: string // Formatting locale, defaults to the browser's
+  rounding?: RoundingRule // Applied to the total; lines are always rounded to the currency's minor unit
+  priceTable?: PriceTable
+}
+
+export interface QuoteLine {
+  kind: 'base' | 'charm' | 'labor' | 'engraving' | 'rounding'
+  description: string
+  amount: number
+  formatted: string
+  estimated?: boolean // Priced from the table because the item has no price of its own
+  charmIndex?: number
+}
+
+export interface Quote {
+  necklaceId: string
+  currency: string
+  lines: QuoteLine[]
+  total: number
+  formattedTotal: string
+  listPrice?: number // Necklace.metadata.price, for comparison with the built-up total
+}
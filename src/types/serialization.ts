@@ -0,0 +1,55 @@
+import type * as THREE from 'three'
+import type { AttachmentPoint, Charm, CharmPlacement, JewelryMaterial, Necklace, NecklaceBase, NecklaceCollection } from './necklace'
+
+// JSON shapes for design files. These mirror the runtime types, with
+// THREE.Euler written as [x, y, z] (radians, optional order) and dates as
+// ISO 8601 strings.
+export type EulerJSON = [number, number, number] | [number, number, number, THREE.EulerOrder]
+
+export interface AttachmentPointJSON extends Omit<AttachmentPoint, 'rotation' | 'occupied'> {
+  rotation?: EulerJSON // Defaults to [0, 0, 0]
+  occupied?: boolean // Defaults to false
+}
+
+export interface NecklaceBaseJSON extends Omit<NecklaceBase, 'attachmentPoints'> {
+  attachmentPoints: AttachmentPointJSON[]
+}
+
+export type CharmJSON = Charm
+
+export type CharmPlacementJSON = Omit<CharmPlacement, 'customRotation'> & { customRotation?: EulerJSON }
+
+export interface NecklaceJSON extends Omit<Necklace, 'base' | 'charms' | 'metadata'> {
+  base: NecklaceBaseJSON
+  charms: CharmPlacementJSON[]
+  metadata: Omit<Necklace['metadata'], 'created' | 'modified'> & {
+    created: string
+    modified: string
+  }
+}
+
+export interface NecklaceCollectionJSON extends Omit<NecklaceCollection, 'necklaces'> {
+  necklaces: NecklaceJSON[]
+}
+
+// Versioned envelope every design file is wrapped in
+export interface DesignDocumentMap {
+  necklace: NecklaceJSON
+  base: NecklaceBaseJSON
+  charm: CharmJSON
+  collection: NecklaceCollectionJSON
+  material: JewelryMaterial // A saved material preset
+}
+
+export type DesignKind = keyof DesignDocumentMap
+
+export interface DesignDocument<K extends DesignKind = DesignKind> {
+  schemaVersion: number
+  kind: K
+  data: DesignDocumentMap[K]
+}
+
+export interface ValidationIssue {
+  path: string // e.g. "necklace.base.attachmentPoints[1].position[2]"
+  message: string
+}
@@ -0,0 +1,25 @@
+import type * as THREE from 'three'
+import type { Necklace, ViewerState } from './necklace'
+import type { DesignDocument } from './serialization'
+
+// Where the camera is and what it orbits
+export interface CameraView {
+  position: THREE.Vector3Tuple
+  target: THREE.Vector3Tuple
+}
+
+// Everything a shared link restores
+export interface ShareLinkState {
+  necklaceId: string | null // A catalog necklace, when there's no inline design
+  design?: Necklace // A custom design carried in the link itself
+  viewer: Partial<Omit<ViewerState, 'selectedNecklaceId'>>
+  camera?: CameraView
+}
+
+// Compact JSON inside the link fragment; the format version is outside it
+export interface ShareLinkPayloadJSON {
+  n?: string // Necklace ID
+  d?: DesignDocument<'necklace'> // Inline design, in the design file format so it migrates with it
+  v: Partial<Omit<ViewerState, 'selectedNecklaceId'>>
+  c?: [number, number, number, number, number, number] // Camera position then target
+}
@@ -0,0 +1,238 @@
+import type {
+  Catalog,
+  CatalogIndex,
+  Charm,
+  CharmManifestEntry,
+  CollectionManifest,
+  JewelryMaterial,
+  MaterialReference,
+  NecklaceBaseManifestEntry,
+  NecklaceCollectionJSON,
+  NecklaceManifestEntry,
+  ValidationIssue,
+} from '../types'
+import { DesignValidationError, parseDesign } from './serialization'
+import { materialRegistry } from './materialRegistry'
+import { createDatabaseMaterial, isMaterialDatabaseKey } from './materialDatabase'
+
+export const CATALOG_INDEX_URL = `${import.meta.env.BASE_URL}catalog/index.json`
+
+export interface LoadedManifest {
+  url: string
+  manifest: unknown
+}
+
+// Shared parts declared across every manifest in the catalog
+interface CatalogLibrary {
+  materials: Map<string, JewelryMaterial>
+  charms: Map<string, CharmManifestEntry>
+  bases: Map<string, NecklaceBaseManifestEntry>
+}
+
+const fetchJSON = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const checkManifest = (url: string, manifest: unknown, issues: ValidationIssue[]): manifest is CollectionManifest => {
+  const fail = (path: string, message: string) => {
+    issues.push({ path: `${url}:${path}`, message })
+    return false
+  }
+
+  if (!isObject(manifest)) return fail('collection', 'expected a collection manifest object')
+  if (typeof manifest.schemaVersion !== 'number') return fail('schemaVersion', 'expected a schema version number')
+  if (!Array.isArray(manifest.necklaces)) return fail('collection.necklaces', 'expected an array')
+  if (manifest.materials !== undefined && !isObject(manifest.materials)) return fail('collection.materials', 'expected an object keyed by material ID')
+  if (manifest.charms !== undefined && !Array.isArray(manifest.charms)) return fail('collection.charms', 'expected an array')
+  if (manifest.bases !== undefined && !Array.isArray(manifest.bases)) return fail('collection.bases', 'expected an array')
+  return true
+}
+
+const createLibrary = (manifests: Array<{ url: string; manifest: CollectionManifest }>, issues: ValidationIssue[]): CatalogLibrary => {
+  const library: CatalogLibrary = { materials: new Map(), charms: new Map(), bases: new Map() }
+
+  const declare = <T>(map: Map<string, T>, id: unknown, value: T, path: string, label: string) => {
+    if (typeof id !== 'string') {
+      issues.push({ path, message: `expected the ${label} to have a string id` })
+    } else if (map.has(id)) {
+      issues.push({ path, message: `${label} '${id}' is already declared in another manifest` })
+    } else {
+      map.set(id, value)
+    }
+  }
+
+  manifests.forEach(({ url, manifest }) => {
+    Object.entries(manifest.materials ?? {}).forEach(([id, material]) => {
+      declare(library.materials, id, material, `${url}:collection.materials.${id}`, 'material')
+    })
+    manifest.charms?.forEach((charm, index) => {
+      declare(library.charms, charm?.id, charm, `${url}:collection.charms[${index}]`, 'charm')
+    })
+    manifest.bases?.forEach((base, index) => {
+      declare(library.bases, base?.id, base, `${url}:collection.bases[${index}]`, 'base')
+    })
+  })
+
+  return library
+}
+
+const resolveMaterial = (
+  reference: MaterialReference,
+  library: CatalogLibrary,
+  path: string,
+  issues: ValidationIssue[]
+): JewelryMaterial => {
+  if (typeof reference !== 'string') return reference
+  const material = library.materials.get(reference)
+    ?? materialRegistry.get(reference)
+    ?? (isMaterialDatabaseKey(reference) ? createDatabaseMaterial(reference) : undefined)
+  if (!material) {
+    issues.push({ path, message: `unknown material '${reference}'` })
+  }
+  return material as JewelryMaterial
+}
+
+const resolveNecklace = (
+  necklace: NecklaceManifestEntry,
+  library: CatalogLibrary,
+  path: string,
+  issues: ValidationIssue[]
+) => {
+  if (!isObject(necklace)) return necklace
+
+  const lookup = <T>(map: Map<string, T>, reference: string | T, referencePath: string, label: string): T => {
+    if (typeof reference !== 'string') return reference
+    const entry = map.get(reference)
+    if (!entry) {
+      issues.push({ path: referencePath, message: `unknown ${label} '${reference}'` })
+    }
+    return entry as T
+  }
+
+  const base = lookup(library.bases, necklace.base, `${path}.base`, 'base')
+  const charms = Array.isArray(necklace.charms)
+    ? necklace.charms.map((entry, index) => {
+      const charmPath = `${path}.charms[${index}].charm`
+      const charm = lookup(library.charms, entry?.charm, charmPath, 'charm')
+      return {
+        ...entry,
+        charm: isObject(charm) ? { ...charm, material: resolveMaterial(charm.material, library, `${charmPath}.material`, issues) } : charm,
+      }
+    })
+    : necklace.charms
+
+  return {
+    ...necklace,
+    base: isObject(base) ? { ...base, material: resolveMaterial(base.material, library, `${path}.base.material`, issues) } : base,
+    charms,
+  }
+}
+
+/**
+ * Resolve shared references in already-fetched manifests and validate the
+ * result. Throws DesignValidationError listing every problem in every manifest.
+ */
+export const resolveCatalog = (loaded: LoadedManifest[]): Catalog => {
+  const issues: ValidationIssue[] = []
+  const manifests = loaded.filter((entry): entry is { url: string; manifest: CollectionManifest } =>
+    checkManifest(entry.url, entry.manifest, issues)
+  )
+  const library = createLibrary(manifests, issues)
+
+  const collections = manifests.flatMap(({ url, manifest }) => {
+    const referenceIssues: ValidationIssue[] = []
+    const data = {
+      id: manifest.id,
+      name: manifest.name,
+      description: manifest.description,
+      featured: manifest.featured,
+      necklaces: manifest.necklaces.map((necklace, index) =>
+        resolveNecklace(necklace, library, `${url}:collection.necklaces[${index}]`, referenceIssues)
+      ),
+    } as NecklaceCollectionJSON
+
+    // Unresolved references would only repeat as type errors in validation
+    if (referenceIssues.length > 0) {
+      issues.push(...referenceIssues)
+      return []
+    }
+
+    try {
+      const collection = parseDesign('collection', { schemaVersion: manifest.schemaVersion, kind: 'collection', data })
+      collection.featured.forEach((id, index) => {
+        if (!collection.necklaces.some((necklace) => necklace.id === id)) {
+          issues.push({ path: `${url}:collection.featured[${index}]`, message: `no necklace '${id}' in this collection` })
+        }
+      })
+      return [collection]
+    } catch (error) {
+      if (!(error instanceof DesignValidationError)) throw error
+      issues.push(...error.issues.map((issue) => ({ ...issue, path: `${url}:${issue.path}` })))
+      return []
+    }
+  })
+
+  // Shared charms are offered in the designer even when no necklace uses them yet
+  const libraryCharms = manifests.flatMap(({ url, manifest }) => (manifest.charms ?? []).flatMap((charm, index) => {
+    const path = `${url}:collection.charms[${index}]`
+    if (!isObject(charm)) return []
+    const data = { ...charm, material: resolveMaterial(charm.material, library, `${path}.material`, issues) }
+    try {
+      return [parseDesign('charm', { schemaVersion: manifest.schemaVersion, kind: 'charm', data })]
+    } catch (error) {
+      if (!(error instanceof DesignValidationError)) throw error
+      issues.push(...error.issues.map((issue) => ({ ...issue, path: `${path}${issue.path.slice('charm'.length)}` })))
+      return []
+    }
+  }))
+
+  const necklaces = collections.flatMap((collection) => collection.necklaces)
+  const usedCharms = necklaces.flatMap((necklace) => necklace.charms.map(({ charm }) => charm))
+  const charms = new Map<string, Charm>()
+  for (const charm of [...libraryCharms, ...usedCharms]) {
+    if (!charms.has(charm.id)) charms.set(charm.id, charm)
+  }
+
+  const seen = new Set<string>()
+  necklaces.forEach((necklace) => {
+    if (seen.has(necklace.id)) {
+      issues.push({ path: `necklaces.${necklace.id}`, message: 'necklace ID is used by more than one catalog entry' })
+    }
+    seen.add(necklace.id)
+  })
+
+  if (issues.length > 0) {
+    throw new DesignValidationError(issues)
+  }
+
+  return {
+    collections,
+    necklaces,
+    charms: [...charms.values()],
+    featured: collections.flatMap((collection) => collection.featured),
+  }
+}
+
+/**
+ * Fetch the catalog index and every collection manifest it lists
+ */
+export const loadCatalog = async (indexUrl: string = CATALOG_INDEX_URL, signal?: AbortSignal): Promise<Catalog> => {
+  const index = await fetchJSON(indexUrl, signal)
+  if (!isObject(index) || !Array.isArray(index.collections) || !index.collections.every((entry) => typeof entry === 'string')) {
+    throw new DesignValidationError([{ path: `${indexUrl}:collections`, message: 'expected a list of manifest URLs' }])
+  }
+
+  // Manifest URLs are relative to the index
+  const baseUrl = new URL(indexUrl, window.location.href)
+  const urls = (index as unknown as CatalogIndex).collections.map((entry) => new URL(entry, baseUrl).pathname)
+  const manifests = await Promise.all(urls.map((url) => fetchJSON(url, signal)))
+
+  return resolveCatalog(manifests.map((manifest, i) => ({ url: urls[i], manifest })))
+}
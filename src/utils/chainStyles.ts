@@ -0,0 +1,206 @@
+import * as THREE from 'three'
+import { MILLIMETRES_PER_UNIT } from '../types'
+import type { ChainStyle } from '../types'
+
+// Parametric chain link generator for procedural necklace bases
+export interface ChainStyleDefinition {
+  name: string
+  gauge: number // Default wire thickness in millimetres
+  linkLength: number // Default outer link length in millimetres
+  alternate: boolean // Every other link turned 90° about the chain
+  rollStep: number // Extra twist per link in radians (rope-style chains)
+}
+
+export const CHAIN_STYLES: Record<ChainStyle, ChainStyleDefinition> = {
+  // Everyday weights: an 18" 18K cable chain comes to about 6 g
+  cable: { name: 'Cable', gauge: 0.6, linkLength: 2.8, alternate: true, rollStep: 0 },
+  curb: { name: 'Curb', gauge: 0.65, linkLength: 2.5, alternate: false, rollStep: 0 },
+  rope: { name: 'Rope', gauge: 0.45, linkLength: 2, alternate: false, rollStep: Math.PI / 6 },
+  box: { name: 'Box', gauge: 0.4, linkLength: 1.8, alternate: true, rollStep: 0 },
+  figaro: { name: 'Figaro', gauge: 0.6, linkLength: 2.3, alternate: false, rollStep: 0 },
+  singapore: { name: 'Singapore', gauge: 0.45, linkLength: 2, alternate: false, rollStep: Math.PI / 10 },
+  snake: { name: 'Snake', gauge: 1.2, linkLength: 1, alternate: false, rollStep: 0 },
+}
+
+export interface ChainLinkOptions {
+  chainStyle?: ChainStyle
+  linkGauge?: number // Millimetres
+  linkLength?: number // Millimetres
+}
+
+// Simpler tessellation for links seen from further away
+export type LinkDetail = 'full' | 'simple'
+
+const LINK_TESSELLATION: Record<LinkDetail, { tubular: number; radial: number; lathe: number }> = {
+  full: { tubular: 32, radial: 8, lathe: 16 },
+  simple: { tubular: 12, radial: 4, lathe: 6 },
+}
+
+// Where one instance of a repeated part sits along the necklace path
+export interface PathInstance {
+  pathParameter: number // 0–1 along the path
+  roll?: number // Radians about the path
+}
+
+// One link shape in a repeating pattern, in 3D units
+interface LinkTemplate {
+  geometry: THREE.BufferGeometry
+  pitch: number // Distance along the chain taken up by this link
+}
+
+/**
+ * Closed link centreline in the XY plane, long axis along X. Exponent 2 is
+ * an ellipse; larger exponents square the link off. Twist rotates the
+ * ends in opposite directions about the long axis, as curb links are.
+ */
+const createLinkPath = (halfLength: number, halfWidth: number, exponent: number = 2, twist: number = 0) => {
+  const points = Array.from({ length: 32 }, (_, i) => {
+    const angle = (i / 32) * Math.PI * 2
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const x = halfLength * Math.sign(cos) * Math.pow(Math.abs(cos), 2 / exponent)
+    const y = halfWidth * Math.sign(sin) * Math.pow(Math.abs(sin), 2 / exponent)
+    const phi = (x / halfLength) * (twist / 2)
+    return new THREE.Vector3(x, y * Math.cos(phi), y * Math.sin(phi))
+  })
+  return new THREE.CatmullRomCurve3(points, true, 'centripetal')
+}
+
+const createWireLink = (
+  length: number,
+  width: number,
+  gauge: number,
+  exponent: number = 2,
+  twist: number = 0,
+  detail: LinkDetail = 'full'
+): THREE.BufferGeometry => {
+  // Centreline sits half a wire in from the outer edge
+  const path = createLinkPath((length - gauge) / 2, (width - gauge) / 2, exponent, twist)
+  const { tubular, radial } = LINK_TESSELLATION[detail]
+  return new THREE.TubeGeometry(path, tubular, gauge / 2, radial, true)
+}
+
+// Short barrel segment of a snake chain, axis along X
+const createSnakeSegment = (length: number, gauge: number, detail: LinkDetail = 'full'): THREE.BufferGeometry => {
+  const radius = gauge / 2
+  const geometry = new THREE.LatheGeometry(
+    [
+      // Capped on the axis so the segment is a closed solid
+      new THREE.Vector2(0, -length * 0.6),
+      new THREE.Vector2(radius * 0.85, -length * 0.6),
+      new THREE.Vector2(radius, -length * 0.25),
+      new THREE.Vector2(radius, length * 0.25),
+      new THREE.Vector2(radius * 0.85, length * 0.6),
+      new THREE.Vector2(0, length * 0.6),
+    ],
+    LINK_TESSELLATION[detail].lathe
+  )
+  geometry.rotateZ(-Math.PI / 2)
+  return geometry
+}
+
+const createLinkPattern = (style: ChainStyle, gauge: number, length: number, detail: LinkDetail = 'full'): LinkTemplate[] => {
+  // Interlocking links advance by their inner length
+  const innerLength = Math.max(length - 2 * gauge, gauge)
+
+  switch (style) {
+    case 'curb':
+      return [{ geometry: createWireLink(length, length * 0.75, gauge, 2, Math.PI / 2, detail), pitch: innerLength }]
+    case 'rope':
+      // Links lean into each other, so several overlap per link length
+      return [{ geometry: createWireLink(length, length * 0.7, gauge, 2, 0, detail), pitch: innerLength * 0.45 }]
+    case 'box':
+      return [{ geometry: createWireLink(length, length, gauge, 6, 0, detail), pitch: innerLength }]
+    case 'figaro': {
+      // Three short links then one long one
+      const short = createWireLink(length, length * 0.75, gauge, 2, Math.PI / 2, detail)
+      const longLength = length * 2.2
+      const long = createWireLink(longLength, length * 0.75, gauge, 2, Math.PI / 2, detail)
+      return [
+        { geometry: short, pitch: innerLength },
+        { geometry: short, pitch: innerLength },
+        { geometry: short, pitch: innerLength },
+        { geometry: long, pitch: longLength - 2 * gauge },
+      ]
+    }
+    case 'singapore':
+      return [{ geometry: createWireLink(length, length * 0.6, gauge, 2, Math.PI / 3, detail), pitch: innerLength * 0.6 }]
+    case 'snake':
+      return [{ geometry: createSnakeSegment(length, gauge, detail), pitch: length }]
+    case 'cable':
+    default:
+      return [{ geometry: createWireLink(length, length * 0.7, gauge, 2, 0, detail), pitch: innerLength }]
+  }
+}
+
+/**
+ * Build the links of a procedural chain of the given length (in 3D units),
+ * one InstancedMesh per link shape. Each carries its instances' places
+ * along the necklace path and roll about it in userData.instances, for
+ * layoutFallbackNecklace to position.
+ */
+export const createChainLinks = (
+  totalLength: number,
+  options: ChainLinkOptions = {},
+  detail: LinkDetail = 'full'
+): THREE.InstancedMesh[] => {
+  const style = options.chainStyle ?? 'cable'
+  const definition = CHAIN_STYLES[style]
+  const gauge = (options.linkGauge ?? definition.gauge) / MILLIMETRES_PER_UNIT
+  const length = (options.linkLength ?? definition.linkLength) / MILLIMETRES_PER_UNIT
+
+  const pattern = createLinkPattern(style, gauge, length, detail)
+  const patternPitch = pattern.reduce((sum, link) => sum + link.pitch, 0)
+
+  // Whole repeats only (even for alternating links), stretched slightly to close the loop
+  let repeats = Math.max(1, Math.round(totalLength / patternPitch))
+  if (definition.alternate && (repeats * pattern.length) % 2 === 1) repeats++
+  const stretch = totalLength / (repeats * patternPitch)
+
+  const instances = new Map<THREE.BufferGeometry, PathInstance[]>()
+  let distance = 0
+  let index = 0
+  for (let r = 0; r < repeats; r++) {
+    pattern.forEach((template) => {
+      const pitch = template.pitch * stretch
+      const geometryInstances = instances.get(template.geometry) ?? []
+      geometryInstances.push({
+        pathParameter: (distance + pitch / 2) / totalLength,
+        roll: (definition.alternate && index % 2 === 1 ? Math.PI / 2 : 0) + index * definition.rollStep,
+      })
+      instances.set(template.geometry, geometryInstances)
+      distance += pitch
+      index++
+    })
+  }
+
+  return [...instances].map(([geometry, geometryInstances]) => createPathInstances(geometry, geometryInstances))
+}
+
+/**
+ * Plain tube standing in for a whole chain seen from far away: as thick as
+ * the links are wide, averaged over their alternating turns. Rebuilt along
+ * the path by layoutFallbackNecklace, like cords.
+ */
+export const createChainImpostor = (options: ChainLinkOptions = {}): THREE.Mesh => {
+  const style = options.chainStyle ?? 'cable'
+  const definition = CHAIN_STYLES[style]
+  const gauge = (options.linkGauge ?? definition.gauge) / MILLIMETRES_PER_UNIT
+  const length = (options.linkLength ?? definition.linkLength) / MILLIMETRES_PER_UNIT
+
+  const [template] = createLinkPattern(style, gauge, length, 'simple')
+  const position = template.geometry.getAttribute('position') as THREE.BufferAttribute
+  const size = new THREE.Box3().setFromBufferAttribute(position).getSize(new THREE.Vector3())
+  template.geometry.dispose()
+
+  const impostor = new THREE.Mesh()
+  impostor.userData.tube = { segments: 128, radius: (size.y + size.z) / 4, radialSegments: 6 }
+  return impostor
+}
+
+// One draw call for every copy of a part along the path; materials are set by the caller
+export const createPathInstances = (geometry: THREE.BufferGeometry, instances: PathInstance[]) => {
+  const mesh = new THREE.InstancedMesh(geometry, undefined, instances.length)
+  mesh.userData.instances = instances
+  return mesh
+}
@@ -0,0 +1,61 @@
+import type { CharmPlacement, JewelryMaterial, Necklace } from '../types'
+import { syncOccupiedFlags } from './placementRules'
+
+// Every edit goes through here so occupied flags and the modified date stay current
+const withCharms = (necklace: Necklace, charms: CharmPlacement[]): Necklace => ({
+  ...necklace,
+  base: syncOccupiedFlags(necklace.base, charms),
+  charms,
+  metadata: { ...necklace.metadata, modified: new Date() },
+})
+
+const touched = (necklace: Necklace, changes: Partial<Necklace>): Necklace => ({
+  ...necklace,
+  ...changes,
+  metadata: { ...necklace.metadata, modified: new Date() },
+})
+
+/**
+ * Hang a charm on the necklace, at the end of the charm list or at the
+ * given index
+ */
+export const attachCharm = (necklace: Necklace, placement: CharmPlacement, charmIndex: number = necklace.charms.length): Necklace => {
+  const charms = [...necklace.charms]
+  charms.splice(charmIndex, 0, placement)
+  return withCharms(necklace, charms)
+}
+
+/**
+ * Move a charm to another point. Custom position and rotation overrides
+ * are absolute, so they're dropped rather than carried to the new point.
+ */
+export const moveCharm = (necklace: Necklace, charmIndex: number, attachmentPointId: string): Necklace => {
+  return withCharms(necklace, necklace.charms.map((placement, index) =>
+    index === charmIndex ? { charm: placement.charm, attachmentPointId } : placement
+  ))
+}
+
+// Put a placement back exactly as it was, e.g. when undoing a move
+export const replaceCharmPlacement = (necklace: Necklace, charmIndex: number, placement: CharmPlacement): Necklace => {
+  return withCharms(necklace, necklace.charms.map((existing, index) => (index === charmIndex ? placement : existing)))
+}
+
+export const removeCharm = (necklace: Necklace, charmIndex: number): Necklace => {
+  return withCharms(necklace, necklace.charms.filter((_, index) => index !== charmIndex))
+}
+
+export const setBaseMaterial = (necklace: Necklace, material: JewelryMaterial): Necklace => {
+  return touched(necklace, { base: { ...necklace.base, material } })
+}
+
+export const setCharmMaterial = (necklace: Necklace, charmIndex: number, material: JewelryMaterial): Necklace => {
+  return touched(necklace, {
+    charms: necklace.charms.map((placement, index) =>
+      index === charmIndex ? { ...placement, charm: { ...placement.charm, material } } : placement
+    ),
+  })
+}
+
+export const setBaseLength = (necklace: Necklace, length: number): Necklace => {
+  return touched(necklace, { base: { ...necklace.base, length } })
+}
@@ -0,0 +1,236 @@
+import type { Charm, DesignCommand, DesignHistoryJSON, HistoryEntry, JewelryMaterial, Necklace } from '../types'
+import {
+  attachCharm,
+  moveCharm,
+  removeCharm,
+  replaceCharmPlacement,
+  setBaseLength,
+  setBaseMaterial,
+  setCharmMaterial,
+} from './designEdits'
+import {
+  DesignValidationError,
+  SCHEMA_VERSION,
+  charmPlacementFromJSON,
+  charmPlacementToJSON,
+  parseDesign,
+  serializeDesign,
+} from './serialization'
+
+// Oldest steps are folded into the initial design past this many
+export const HISTORY_LIMIT = 100
+
+// Repeats of the same edit (dragging one charm around, scrubbing the length) within this many ms become one step
+export const MERGE_WINDOW = 1500
+
+// Commands that set something from one value to another
+type ChangeCommand = Extract<DesignCommand, { from: unknown }>
+
+export interface DesignHistory {
+  initial: Necklace
+  present: Necklace
+  past: HistoryEntry[] // Undo stack, most recent last
+  future: HistoryEntry[] // Redo stack, next redo last
+}
+
+// Commands
+
+export const addCharmCommand = (necklace: Necklace, charm: Charm, attachmentPointId: string): DesignCommand => ({
+  type: 'add-charm',
+  charmIndex: necklace.charms.length,
+  placement: { charm, attachmentPointId },
+})
+
+export const removeCharmCommand = (necklace: Necklace, charmIndex: number): DesignCommand => ({
+  type: 'remove-charm',
+  charmIndex,
+  placement: charmPlacementToJSON(necklace.charms[charmIndex]),
+})
+
+export const moveCharmCommand = (necklace: Necklace, charmIndex: number, attachmentPointId: string): DesignCommand => ({
+  type: 'move-charm',
+  charmIndex,
+  from: charmPlacementToJSON(necklace.charms[charmIndex]),
+  to: charmPlacementToJSON(moveCharm(necklace, charmIndex, attachmentPointId).charms[charmIndex]),
+})
+
+export const setBaseMaterialCommand = (necklace: Necklace, material: JewelryMaterial): DesignCommand => ({
+  type: 'set-base-material',
+  from: necklace.base.material,
+  to: material,
+})
+
+export const setCharmMaterialCommand = (necklace: Necklace, charmIndex: number, material: JewelryMaterial): DesignCommand => ({
+  type: 'set-charm-material',
+  charmIndex,
+  from: necklace.charms[charmIndex].charm.material,
+  to: material,
+})
+
+export const setBaseLengthCommand = (necklace: Necklace, length: number): DesignCommand => ({
+  type: 'set-base-length',
+  from: necklace.base.length,
+  to: length,
+})
+
+export const applyCommand = (necklace: Necklace, command: DesignCommand): Necklace => {
+  switch (command.type) {
+    case 'add-charm':
+      return attachCharm(necklace, charmPlacementFromJSON(command.placement), command.charmIndex)
+    case 'remove-charm':
+      return removeCharm(necklace, command.charmIndex)
+    case 'move-charm':
+      return replaceCharmPlacement(necklace, command.charmIndex, charmPlacementFromJSON(command.to))
+    case 'set-base-material':
+      return setBaseMaterial(necklace, command.to)
+    case 'set-charm-material':
+      return setCharmMaterial(necklace, command.charmIndex, command.to)
+    case 'set-base-length':
+      return setBaseLength(necklace, command.to)
+  }
+}
+
+export const invertCommand = (command: DesignCommand): DesignCommand => {
+  switch (command.type) {
+    case 'add-charm':
+      return { ...command, type: 'remove-charm' }
+    case 'remove-charm':
+      return { ...command, type: 'add-charm' }
+    case 'move-charm':
+    case 'set-base-material':
+    case 'set-charm-material':
+    case 'set-base-length':
+      return { ...command, from: command.to, to: command.from } as ChangeCommand
+  }
+}
+
+// Commands with the same key can merge; adding and removing never do
+const mergeKey = (command: DesignCommand): string | null => {
+  switch (command.type) {
+    case 'move-charm':
+    case 'set-charm-material':
+      return `${command.type}:${command.charmIndex}`
+    case 'set-base-material':
+    case 'set-base-length':
+      return command.type
+    default:
+      return null
+  }
+}
+
+const isNoOp = (command: DesignCommand) =>
+  'from' in command && JSON.stringify(command.from) === JSON.stringify(command.to)
+
+// History
+
+export const createHistory = (necklace: Necklace): DesignHistory => ({
+  initial: necklace,
+  present: necklace,
+  past: [],
+  future: [],
+})
+
+/**
+ * Apply a command and record it. A repeat of the previous edit within
+ * MERGE_WINDOW extends that step instead of adding one; the redo stack
+ * is cleared either way.
+ */
+export const executeCommand = (history: DesignHistory, command: DesignCommand, timestamp: number = Date.now()): DesignHistory => {
+  if (isNoOp(command)) return history
+
+  const present = applyCommand(history.present, command)
+  let past = history.past
+  const previous = past[past.length - 1]
+  const key = mergeKey(command)
+
+  if (previous && key && mergeKey(previous.command) === key && timestamp - previous.timestamp < MERGE_WINDOW) {
+    // Keep where the first edit started and where the latest one ended
+    const merged = { ...command, from: (previous.command as ChangeCommand).from } as DesignCommand
+    past = past.slice(0, -1)
+    if (!isNoOp(merged)) past = [...past, { command: merged, timestamp }]
+  } else {
+    past = [...past, { command, timestamp }]
+  }
+
+  let initial = history.initial
+  while (past.length > HISTORY_LIMIT) {
+    initial = applyCommand(initial, past[0].command)
+    past = past.slice(1)
+  }
+
+  return { initial, present, past, future: [] }
+}
+
+export const undo = (history: DesignHistory): DesignHistory => {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return history
+  return {
+    ...history,
+    present: applyCommand(history.present, invertCommand(entry.command)),
+    past: history.past.slice(0, -1),
+    future: [...history.future, entry],
+  }
+}
+
+export const redo = (history: DesignHistory): DesignHistory => {
+  const entry = history.future[history.future.length - 1]
+  if (!entry) return history
+  return {
+    ...history,
+    present: applyCommand(history.present, entry.command),
+    past: [...history.past, entry],
+    future: history.future.slice(0, -1),
+  }
+}
+
+// Saving
+
+export const serializeHistory = (history: DesignHistory): DesignHistoryJSON => ({
+  schemaVersion: SCHEMA_VERSION,
+  initial: serializeDesign('necklace', history.initial),
+  past: history.past,
+  future: history.future,
+})
+
+const COMMAND_TYPES: DesignCommand['type'][] = [
+  'add-charm',
+  'remove-charm',
+  'move-charm',
+  'set-base-material',
+  'set-charm-material',
+  'set-base-length',
+]
+
+const checkEntries = (entries: unknown, path: string): HistoryEntry[] => {
+  if (!Array.isArray(entries)) {
+    throw new DesignValidationError([{ path, message: 'expected an array of history entries' }])
+  }
+  entries.forEach((entry, index) => {
+    const command = entry?.command
+    // Older saves recorded moves as bare attachment point IDs
+    const staleMove = command?.type === 'move-charm' && (typeof command.from !== 'object' || typeof command.to !== 'object')
+    if (typeof entry?.timestamp !== 'number' || !COMMAND_TYPES.includes(command?.type) || staleMove) {
+      throw new DesignValidationError([{ path: `${path}[${index}]`, message: 'expected { command, timestamp }' }])
+    }
+  })
+  return entries
+}
+
+/**
+ * Restore a saved history by replaying its undo stack on the initial
+ * design. Histories from another schema version are rejected rather than
+ * migrated: their commands may not apply.
+ */
+export const parseHistory = (json: unknown): DesignHistory => {
+  const saved = json as Partial<DesignHistoryJSON> | null
+  if (saved?.schemaVersion !== SCHEMA_VERSION) {
+    throw new DesignValidationError([{ path: 'history.schemaVersion', message: `expected version ${SCHEMA_VERSION}` }])
+  }
+
+  const initial = parseDesign('necklace', saved.initial)
+  const past = checkEntries(saved.past, 'history.past')
+  const future = checkEntries(saved.future, 'history.future')
+  const present = past.reduce((necklace, entry) => applyCommand(necklace, entry.command), initial)
+
+  return { initial, present, past, future }
+}
@@ -0,0 +1,42 @@
+import * as THREE from 'three'
+import { getMannequinColliders, MANNEQUIN_DROP_HEIGHT } from './mannequin'
+import { CHAIN_PHYSICS_DEFAULTS, PlaneCollider, type ChainSimulationOptions } from './physics'
+import type { ViewerState } from '../types'
+
+// Surface the flat-lay rests on (the scene's ground plane)
+export const FLAT_LAY_SURFACE_HEIGHT = -3
+
+// Charms lie face up on the surface instead of hanging, relative to the
+// attachment frame (see getPathFrame)
+export const FLAT_LAY_CHARM_ROTATION = new THREE.Euler(-Math.PI / 2, 0, 0)
+
+/**
+ * Chain simulation setup for each display mode. Floating pins the back of
+ * the chain as if hung on an invisible neck; the mannequin lets it settle
+ * on the bust's collision shapes instead. Flat-lay holds the clasp side on
+ * the surface and pulls the rest toward the viewer, the way a stylist
+ * spreads a necklace out, so the charms' weight shapes the curve.
+ */
+export const getDisplayModeSimulationOptions = (
+  displayMode: ViewerState['displayMode']
+): Partial<ChainSimulationOptions> => {
+  switch (displayMode) {
+    case 'mannequin':
+      return {
+        pinnedRange: null,
+        height: MANNEQUIN_DROP_HEIGHT,
+        colliders: getMannequinColliders(),
+      }
+    case 'flat':
+      return {
+        height: FLAT_LAY_SURFACE_HEIGHT + CHAIN_PHYSICS_DEFAULTS.particleRadius,
+        gravity: [0, -9.81, 4],
+        pinnedRange: [0.65, 0.85],
+        friction: 0.2,
+        colliders: [new PlaneCollider([0, FLAT_LAY_SURFACE_HEIGHT, 0])],
+      }
+    case 'floating':
+    default:
+      return {}
+  }
+}
@@ -0,0 +1,139 @@
+import * as THREE from 'three'
+
+export interface EnvironmentBlendLayer {
+  texture: THREE.Texture | null // Equirectangular or cube environment map; null while loading
+  weight: number
+}
+
+const vertexShader = /* glsl */ `
+  varying vec3 vDirection;
+
+  void main() {
+    vDirection = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`
+
+// Same direction to UV mapping three.js uses for equirectangular maps
+const fragmentShader = /* glsl */ `
+  uniform float weight;
+  uniform bool isCube;
+  uniform float flipX;
+  uniform samplerCube cubeMap;
+  uniform sampler2D equirectMap;
+  varying vec3 vDirection;
+
+  #define RECIPROCAL_PI 0.3183098861837907
+  #define RECIPROCAL_PI2 0.15915494309189535
+
+  void main() {
+    vec3 direction = normalize(vDirection);
+    vec3 color;
+    if (isCube) {
+      color = textureCube(cubeMap, vec3(flipX * direction.x, direction.yz)).rgb;
+    } else {
+      vec2 uv = vec2(
+        atan(direction.z, direction.x) * RECIPROCAL_PI2 + 0.5,
+        asin(clamp(direction.y, -1.0, 1.0)) * RECIPROCAL_PI + 0.5
+      );
+      color = texture2D(equirectMap, uv).rgb;
+    }
+    gl_FragColor = vec4(color * weight, 1.0);
+  }
+`
+
+const isCubeTexture = (texture: THREE.Texture) =>
+  texture.mapping === THREE.CubeReflectionMapping || texture.mapping === THREE.CubeRefractionMapping
+
+/**
+ * Mixes several environment maps into one cube map by weight, so a scene
+ * can crossfade between environments. Use `texture` as the scene's
+ * environment (and background); call `update` whenever the layers change.
+ */
+export class EnvironmentBlender {
+  readonly texture: THREE.CubeTexture
+  private target: THREE.WebGLCubeRenderTarget
+  private camera: THREE.CubeCamera
+  private scene = new THREE.Scene()
+  private geometry = new THREE.BoxGeometry(1, 1, 1)
+  private meshes: THREE.Mesh<THREE.BoxGeometry, THREE.ShaderMaterial>[] = []
+  private lastKey = ''
+
+  constructor(resolution = 512) {
+    this.target = new THREE.WebGLCubeRenderTarget(resolution, { type: THREE.HalfFloatType })
+    this.texture = this.target.texture
+    this.camera = new THREE.CubeCamera(0.1, 10, this.target)
+    this.scene.background = new THREE.Color(0, 0, 0)
+  }
+
+  private getMesh(index: number) {
+    if (!this.meshes[index]) {
+      const material = new THREE.ShaderMaterial({
+        uniforms: {
+          weight: { value: 0 },
+          isCube: { value: false },
+          flipX: { value: 1 },
+          cubeMap: { value: null },
+          equirectMap: { value: null },
+        },
+        vertexShader,
+        fragmentShader,
+        side: THREE.BackSide,
+        depthTest: false,
+        depthWrite: false,
+        // Layers add up; weights are expected to sum to one
+        blending: THREE.CustomBlending,
+        blendEquation: THREE.AddEquation,
+        blendSrc: THREE.OneFactor,
+        blendDst: THREE.OneFactor,
+      })
+      const mesh = new THREE.Mesh(this.geometry, material)
+      mesh.scale.setScalar(5)
+      mesh.frustumCulled = false
+      this.meshes[index] = mesh
+      this.scene.add(mesh)
+    }
+    return this.meshes[index]
+  }
+
+  /**
+   * Re-render the blend if any texture or weight changed. Layers still
+   * loading are left out and the others renormalized. Returns whether
+   * anything was drawn.
+   */
+  update(renderer: THREE.WebGLRenderer, layers: EnvironmentBlendLayer[]) {
+    const ready = layers.filter((layer): layer is { texture: THREE.Texture; weight: number } => Boolean(layer.texture) && layer.weight > 0)
+    const total = ready.reduce((sum, layer) => sum + layer.weight, 0)
+    if (total <= 0) return false
+
+    const key = ready.map(({ texture, weight }) => `${texture.uuid}:${texture.version}:${weight.toFixed(4)}`).join('|')
+    if (key === this.lastKey) return false
+    this.lastKey = key
+
+    this.meshes.forEach((mesh) => { mesh.visible = false })
+    ready.forEach(({ texture, weight }, index) => {
+      const mesh = this.getMesh(index)
+      const { uniforms } = mesh.material
+      const cube = isCubeTexture(texture)
+      uniforms.weight.value = weight / total
+      uniforms.isCube.value = cube
+      // Cube maps loaded from images are mirrored relative to rendered ones
+      uniforms.flipX.value = cube && !texture.isRenderTargetTexture ? -1 : 1
+      uniforms.cubeMap.value = cube ? texture : null
+      uniforms.equirectMap.value = cube ? null : texture
+      mesh.visible = true
+    })
+
+    const autoClear = renderer.autoClear
+    renderer.autoClear = true
+    this.camera.update(renderer, this.scene)
+    renderer.autoClear = autoClear
+    return true
+  }
+
+  dispose() {
+    this.target.dispose()
+    this.geometry.dispose()
+    this.meshes.forEach((mesh) => mesh.material.dispose())
+  }
+}
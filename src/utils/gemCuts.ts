@@ -0,0 +1,188 @@
+import * as THREE from 'three'
+import { ConvexGeometry } from 'three/examples/jsm/geometries/ConvexGeometry.js'
+import { CHARM_MILLIMETRES_PER_UNIT } from '../types'
+import type { GemCut, GemCutProportions, GemSpecification } from '../types'
+import { computeGeometryVolume } from './geometryVolume'
+
+export const CARAT_GRAMS = 0.2
+
+// Typical well-cut proportions for each cut
+export const GEM_CUT_PROPORTIONS: Record<GemCut, GemCutProportions> = {
+  'round-brilliant': { table: 57, crownAngle: 34.5, pavilionDepth: 43, girdle: 3 },
+  'princess': { table: 70, crownAngle: 35, pavilionDepth: 60, girdle: 3 },
+  'emerald': { table: 62, crownAngle: 40, pavilionDepth: 50, girdle: 3 },
+  'oval': { table: 55, crownAngle: 34, pavilionDepth: 45, girdle: 3 },
+  'pear': { table: 55, crownAngle: 34, pavilionDepth: 45, girdle: 3 },
+  'marquise': { table: 55, crownAngle: 34, pavilionDepth: 45, girdle: 3 },
+  'cushion': { table: 60, crownAngle: 35, pavilionDepth: 50, girdle: 3 },
+  'cabochon': { table: 0, crownAngle: 40, pavilionDepth: 0, girdle: 5 },
+}
+
+// Length to width
+export const GEM_CUT_RATIOS: Record<GemCut, number> = {
+  'round-brilliant': 1,
+  'princess': 1,
+  'emerald': 1.5,
+  'oval': 1.4,
+  'pear': 1.55,
+  'marquise': 2,
+  'cushion': 1,
+  'cabochon': 1.3,
+}
+
+// 'simple' has fewer facets, for viewing from further away
+export type GemCutDetail = 'full' | 'simple'
+
+// Points around the girdle (x along the length, z across the width) at an
+// angle around the stone, for a stone 1 wide
+type Outline = (angle: number) => THREE.Vector2
+
+const createOutline = (cut: GemCut): Outline => {
+  const halfLength = GEM_CUT_RATIOS[cut] / 2
+  const halfWidth = 0.5
+
+  switch (cut) {
+    case 'princess':
+      // Square, corners at the diagonals
+      return (angle) => {
+        const c = Math.cos(angle)
+        const s = Math.sin(angle)
+        const edge = Math.max(Math.abs(c), Math.abs(s))
+        return new THREE.Vector2((halfLength * c) / edge, (halfWidth * s) / edge)
+      }
+    case 'marquise':
+      // Two arcs meeting in points at either end
+      return (angle) => new THREE.Vector2(halfLength * Math.cos(angle), halfWidth * Math.sin(angle) * Math.abs(Math.sin(angle)))
+    case 'pear': {
+      // Round at one end, pointed at the other; centred on its length
+      const tip = 2 * halfLength - halfWidth
+      const offset = (tip - halfWidth) / 2
+      return (angle) => {
+        const c = Math.cos(angle)
+        const s = Math.sin(angle)
+        return c < 0
+          ? new THREE.Vector2(halfWidth * c - offset, halfWidth * s)
+          : new THREE.Vector2(tip * c - offset, halfWidth * s * Math.abs(s))
+      }
+    }
+    case 'cushion':
+      // Square with softly rounded corners (a superellipse)
+      return (angle) => {
+        const c = Math.cos(angle)
+        const s = Math.sin(angle)
+        return new THREE.Vector2(halfLength * Math.sign(c) * Math.sqrt(Math.abs(c)), halfWidth * Math.sign(s) * Math.sqrt(Math.abs(s)))
+      }
+    default:
+      // Round, oval and cabochon; the emerald cut's rows follow its corners instead
+      return (angle) => new THREE.Vector2(halfLength * Math.cos(angle), halfWidth * Math.sin(angle))
+  }
+}
+
+// Points around the outline at a scale and height, turned by a fraction of a step
+const ring = (outline: Outline, count: number, scale: number, y: number, turn: number = 0) =>
+  Array.from({ length: count }, (_, i) => {
+    const point = outline(((i + turn) / count) * Math.PI * 2)
+    return new THREE.Vector3(point.x * scale, y, point.y * scale)
+  })
+
+/**
+ * Corners of a stone 1 wide, table up, girdle centred on y = 0. Brilliant
+ * style cuts get star and lower girdle facets from rings turned half a
+ * step between the table, girdle and culet; the emerald cut steps down in
+ * concentric rows to a keel; cabochons are a dome.
+ */
+const createCutPoints = (cut: GemCut, proportions: GemCutProportions, detail: GemCutDetail): THREE.Vector3[] => {
+  const outline = createOutline(cut)
+  const table = proportions.table / 100
+  const girdle = proportions.girdle / 200 // Half thickness
+  const crownHeight = ((1 - table) / 2) * Math.tan(THREE.MathUtils.degToRad(proportions.crownAngle))
+  const pavilionDepth = proportions.pavilionDepth / 100
+  const points: THREE.Vector3[] = []
+
+  if (cut === 'cabochon') {
+    const segments = detail === 'full' ? 24 : 12
+    const rows = detail === 'full' ? 6 : 3
+    const domeHeight = 0.5 * Math.tan(THREE.MathUtils.degToRad(proportions.crownAngle))
+    points.push(...ring(outline, segments, 1, -girdle))
+    for (let row = 0; row < rows; row++) {
+      const angle = (row / rows) * (Math.PI / 2)
+      points.push(...ring(outline, segments, Math.cos(angle), girdle + domeHeight * Math.sin(angle), (row % 2) / 2))
+    }
+    points.push(new THREE.Vector3(0, girdle + domeHeight, 0))
+    if (pavilionDepth > 0) points.push(new THREE.Vector3(0, -girdle - pavilionDepth, 0))
+    return points
+  }
+
+  if (cut === 'emerald') {
+    // A rectangle with its corners cut off
+    const halfLength = GEM_CUT_RATIOS.emerald / 2
+    const corner = 0.15
+    const rim = [
+      [halfLength, 0.5 - corner], [halfLength - corner, 0.5], [corner - halfLength, 0.5], [-halfLength, 0.5 - corner],
+      [-halfLength, corner - 0.5], [corner - halfLength, -0.5], [halfLength - corner, -0.5], [halfLength, corner - 0.5],
+    ]
+    const row = (scale: number, y: number) => rim.map(([x, z]) => new THREE.Vector3(x * scale, y, z * scale))
+
+    const rows = detail === 'full' ? 3 : 1
+    points.push(...row(1, girdle), ...row(1, -girdle))
+    // Each row's slope shallower than the one below it
+    for (let index = 1; index <= rows; index++) {
+      const step = index / rows
+      points.push(...row(1 - (1 - table) * step, girdle + crownHeight * (1 - Math.pow(1 - step, 2))))
+    }
+    for (let index = 1; index <= rows; index++) {
+      const step = index / (rows + 1)
+      points.push(...row(1 - step, -girdle - pavilionDepth * (1 - Math.pow(1 - step, 2))))
+    }
+    // The keel runs the length of the stone
+    const keel = (GEM_CUT_RATIOS.emerald - 1) / 2
+    points.push(new THREE.Vector3(-keel, -girdle - pavilionDepth, 0), new THREE.Vector3(keel, -girdle - pavilionDepth, 0))
+    return points
+  }
+
+  const segments = detail === 'full' ? 16 : 8
+  const facets = segments / 2
+  points.push(...ring(outline, segments, 1, girdle), ...ring(outline, segments, 1, -girdle))
+  points.push(...ring(outline, facets, table, girdle + crownHeight))
+  points.push(new THREE.Vector3(0, -girdle - pavilionDepth, 0))
+  if (detail === 'full') {
+    // Stars and bezels, and lower girdle facets, stand slightly proud of a straight slope
+    points.push(...ring(outline, facets, (1 + table) / 2, girdle + crownHeight * 0.6, 0.5))
+    points.push(...ring(outline, facets, 0.45, -girdle - pavilionDepth * 0.5, 0.5))
+  }
+  return points
+}
+
+/**
+ * Flat-shaded stone of a standard cut, 1 unit wide with the table up and
+ * the girdle on y = 0. Every cut is convex, so the facets are the convex
+ * hull of its corners and the normals point straight out of each facet.
+ */
+export const createGemCutGeometry = (
+  cut: GemCut,
+  proportions: Partial<GemCutProportions> = {},
+  detail: GemCutDetail = 'full'
+): THREE.BufferGeometry => {
+  const resolved = { ...GEM_CUT_PROPORTIONS[cut], ...proportions }
+  return new ConvexGeometry(createCutPoints(cut, resolved, detail))
+}
+
+/**
+ * A stone cut to its specification, sized so it weighs its carats at a
+ * density in g/cm³. Drawn at charm scale (see CHARM_MILLIMETRES_PER_UNIT),
+ * like the stand-ins it replaces.
+ */
+export const createGemGeometry = (
+  specification: GemSpecification,
+  density: number,
+  detail: GemCutDetail = 'full'
+): THREE.BufferGeometry => {
+  const geometry = createGemCutGeometry(specification.cut, specification.proportions, detail)
+  // Both levels of detail are sized from the full cut so they match
+  const reference = detail === 'full' ? geometry : createGemCutGeometry(specification.cut, specification.proportions)
+  const cubicMillimetres = ((specification.carat * CARAT_GRAMS) / density) * 1000
+  const cubicUnits = cubicMillimetres / Math.pow(CHARM_MILLIMETRES_PER_UNIT, 3)
+  const scale = Math.cbrt(cubicUnits / computeGeometryVolume(reference).volume)
+  if (reference !== geometry) reference.dispose()
+  return geometry.scale(scale, scale, scale)
+}
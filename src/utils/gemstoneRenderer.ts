@@ -0,0 +1,257 @@
+import * as THREE from 'three'
+import type { JewelryMaterial } from '../types'
+import { FRAUNHOFER_WAVELENGTHS, getGemOptics, getRefractiveIndexAt } from './materialDatabase'
+
+// Resolution of the baked cubemap each stone traces its bounces against
+export const GEMSTONE_CUBEMAP_RESOLUTION = 128
+
+// Internal reflections followed before light is let out whichever way it's heading
+export const GEMSTONE_BOUNCES = 4
+
+/**
+ * A stone's own shape as seen from its centre: for every direction, the
+ * object-space normal (rgb) and distance (a) of the surface it hits
+ */
+export interface GemstoneCubemap {
+  texture: THREE.CubeTexture
+  center: THREE.Vector3
+  radius: number
+}
+
+/**
+ * Refractive index for red, green and blue light, from the stone's nD and
+ * B–G dispersion (see getGemOptics); red is taken at C (656 nm), green at
+ * D (589 nm) and blue at F (486 nm).
+ */
+export const getDispersionIors = (material: JewelryMaterial): THREE.Vector3 => {
+  const { refraction, dispersion } = getGemOptics(material)
+  const { C, F } = FRAUNHOFER_WAVELENGTHS
+  return new THREE.Vector3(
+    getRefractiveIndexAt(refraction, dispersion, C),
+    refraction,
+    getRefractiveIndexAt(refraction, dispersion, F)
+  )
+}
+
+const bakeVertexShader = /* glsl */ `
+  varying vec3 vPosition;
+  varying vec3 vNormal;
+
+  void main() {
+    vPosition = position;
+    vNormal = normal;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+  }
+`
+
+const bakeFragmentShader = /* glsl */ `
+  uniform vec3 center;
+  varying vec3 vPosition;
+  varying vec3 vNormal;
+
+  void main() {
+    gl_FragColor = vec4( normalize( vNormal ), distance( vPosition, center ) );
+  }
+`
+
+const bakes = new WeakMap<THREE.BufferGeometry, GemstoneCubemap>()
+
+/**
+ * Bake a stone's inside surface into a cubemap, once per geometry. Only
+ * back faces are drawn: from the centre, those are the facets light
+ * inside the stone reaches. Freed when the geometry is disposed, and
+ * baked again if the geometry is drawn after that.
+ */
+export const bakeGemstoneCubemap = (
+  renderer: THREE.WebGLRenderer,
+  geometry: THREE.BufferGeometry,
+  resolution: number = GEMSTONE_CUBEMAP_RESOLUTION
+): GemstoneCubemap => {
+  const cached = bakes.get(geometry)
+  if (cached) return cached
+
+  if (!geometry.boundingSphere) geometry.computeBoundingSphere()
+  const { center, radius } = geometry.boundingSphere ?? new THREE.Sphere()
+
+  const target = new THREE.WebGLCubeRenderTarget(resolution, { type: THREE.HalfFloatType, generateMipmaps: false })
+  const camera = new THREE.CubeCamera(radius * 0.001, radius * 4, target)
+  camera.position.copy(center)
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: { center: { value: center.clone() } },
+    vertexShader: bakeVertexShader,
+    fragmentShader: bakeFragmentShader,
+    side: THREE.BackSide,
+    blending: THREE.NoBlending, // Keep the distance in alpha
+  })
+  const scene = new THREE.Scene()
+  scene.add(new THREE.Mesh(geometry, material))
+
+  const clearColor = renderer.getClearColor(new THREE.Color())
+  const clearAlpha = renderer.getClearAlpha()
+  const autoClear = renderer.autoClear
+  renderer.setClearColor(0x000000, 0)
+  renderer.autoClear = true
+  camera.update(renderer, scene)
+  renderer.setClearColor(clearColor, clearAlpha)
+  renderer.autoClear = autoClear
+  material.dispose()
+
+  const cubemap: GemstoneCubemap = { texture: target.texture, center: center.clone(), radius }
+  bakes.set(geometry, cubemap)
+  geometry.addEventListener('dispose', () => {
+    target.dispose()
+    bakes.delete(geometry)
+  })
+  return cubemap
+}
+
+const vertexShader = /* glsl */ `
+  varying vec3 vObjectPosition;
+  varying vec3 vObjectNormal;
+  varying vec3 vObjectEye;
+  varying mat3 vObjectToWorld;
+
+  void main() {
+    mat4 objectMatrix = modelMatrix;
+    #ifdef USE_INSTANCING
+      objectMatrix = modelMatrix * instanceMatrix;
+    #endif
+
+    vObjectPosition = position;
+    vObjectNormal = normal;
+    vObjectEye = ( inverse( objectMatrix ) * vec4( cameraPosition, 1.0 ) ).xyz;
+    vObjectToWorld = mat3( objectMatrix );
+    gl_Position = projectionMatrix * viewMatrix * objectMatrix * vec4( position, 1.0 );
+  }
+`
+
+// Tracing happens in object space, against the baked cubemap. Each
+// wavelength is refracted in with its own IOR, then bounced off the facets
+// until it meets one at less than the critical angle and refracts out.
+const fragmentShader = /* glsl */ `
+  #include <common>
+
+  uniform samplerCube envMap;
+  uniform float envMapIntensity;
+  uniform samplerCube gemMap;
+  uniform vec3 gemCenter;
+  uniform float gemRadius;
+  uniform vec3 color;
+  uniform vec3 iors;
+  uniform float absorption;
+
+  varying vec3 vObjectPosition;
+  varying vec3 vObjectNormal;
+  varying vec3 vObjectEye;
+  varying mat3 vObjectToWorld;
+
+  vec3 sampleEnvironment( vec3 direction ) {
+    return textureCube( envMap, normalize( vObjectToWorld * direction ) ).rgb;
+  }
+
+  // Where a ray from inside the stone reaches its surface, by repeatedly
+  // intersecting the facet plane found in the current direction from the
+  // centre; flat facets converge in a step or two
+  vec3 traceExit( vec3 origin, vec3 direction, out vec3 normal ) {
+    vec3 hit = origin + direction * gemRadius;
+    normal = -direction;
+    for ( int i = 0; i < TRACE_STEPS; i ++ ) {
+      vec3 fromCenter = hit - gemCenter;
+      if ( dot( fromCenter, fromCenter ) < 1e-12 ) break;
+      vec4 surface = textureCube( gemMap, fromCenter );
+      normal = normalize( surface.xyz );
+      vec3 surfacePoint = gemCenter + normalize( fromCenter ) * surface.a;
+      float facing = dot( direction, normal );
+      float travel = facing > 1e-4 ? dot( surfacePoint - origin, normal ) / facing : distance( surfacePoint, origin );
+      hit = origin + direction * max( travel, 0.0 );
+    }
+    return hit;
+  }
+
+  // The direction light of one IOR leaves the stone in, and how far it travelled inside
+  vec3 traceRefraction( vec3 point, vec3 normal, vec3 incident, float ior, out float pathLength ) {
+    vec3 direction = refract( incident, normal, 1.0 / ior );
+    pathLength = 0.0;
+    for ( int i = 0; i < GEM_BOUNCES; i ++ ) {
+      vec3 exitNormal;
+      vec3 exitPoint = traceExit( point, direction, exitNormal );
+      pathLength += distance( point, exitPoint );
+      vec3 refracted = refract( direction, -exitNormal, ior );
+      if ( dot( refracted, refracted ) > 0.0 ) return refracted;
+      // Total internal reflection
+      direction = reflect( direction, -exitNormal );
+      point = exitPoint;
+    }
+    return direction;
+  }
+
+  // Body colour deepens with the distance light travels through the stone
+  vec3 transmittance( float pathLength ) {
+    return pow( max( color, vec3( 1e-3 ) ), vec3( absorption * pathLength / gemRadius ) );
+  }
+
+  void main() {
+    vec3 incident = normalize( vObjectPosition - vObjectEye );
+    vec3 normal = normalize( vObjectNormal );
+
+    float f0 = pow2( ( iors.g - 1.0 ) / ( iors.g + 1.0 ) );
+    float fresnel = f0 + ( 1.0 - f0 ) * pow( 1.0 - saturate( dot( -incident, normal ) ), 5.0 );
+    vec3 reflection = sampleEnvironment( reflect( incident, normal ) );
+
+    float pathLength;
+    vec3 refraction;
+    refraction.r = sampleEnvironment( traceRefraction( vObjectPosition, normal, incident, iors.r, pathLength ) ).r * transmittance( pathLength ).r;
+    refraction.g = sampleEnvironment( traceRefraction( vObjectPosition, normal, incident, iors.g, pathLength ) ).g * transmittance( pathLength ).g;
+    refraction.b = sampleEnvironment( traceRefraction( vObjectPosition, normal, incident, iors.b, pathLength ) ).b * transmittance( pathLength ).b;
+
+    gl_FragColor = vec4( ( reflection * fresnel + refraction * ( 1.0 - fresnel ) ) * envMapIntensity, 1.0 );
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`
+
+/**
+ * Material for a faceted stone that traces light through its own shape:
+ * refraction in, up to GEMSTONE_BOUNCES total internal reflections, and
+ * refraction out, per wavelength for fire. Lit by the scene's environment
+ * map. Each geometry it draws is baked on first use, so one material
+ * serves stones of any cut.
+ */
+export const createGemstoneMaterial = (materialDef: JewelryMaterial): THREE.ShaderMaterial => {
+  const material = new THREE.ShaderMaterial({
+    name: materialDef.name,
+    uniforms: {
+      envMap: { value: null },
+      envMapIntensity: { value: 1 },
+      gemMap: { value: null },
+      gemCenter: { value: new THREE.Vector3() },
+      gemRadius: { value: 1 },
+      color: { value: new THREE.Color(materialDef.color) },
+      iors: { value: getDispersionIors(materialDef) },
+      // Clearer stones hold less of their colour
+      absorption: { value: 0.5 + 2 * (1 - (materialDef.transparency ?? 0.95)) },
+    },
+    defines: {
+      GEM_BOUNCES: GEMSTONE_BOUNCES,
+      TRACE_STEPS: 3,
+    },
+    vertexShader,
+    fragmentShader,
+  })
+
+  // The environment crossfades between presets; follow whatever is current.
+  // Stones of different shapes can share the material, so their own
+  // cubemap is bound for each one drawn.
+  material.onBeforeRender = (renderer, scene, _camera, geometry) => {
+    const cubemap = bakeGemstoneCubemap(renderer, geometry)
+    material.uniforms.gemMap.value = cubemap.texture
+    material.uniforms.gemCenter.value.copy(cubemap.center)
+    material.uniforms.gemRadius.value = cubemap.radius
+    material.uniforms.envMap.value = scene.environment instanceof THREE.CubeTexture ? scene.environment : null
+    material.uniforms.envMapIntensity.value = scene.environmentIntensity
+    material.uniformsNeedUpdate = true
+  }
+  return material
+}
@@ -0,0 +1,57 @@
+import * as THREE from 'three'
+
+export interface GeometryVolume {
+  volume: number
+  closed: boolean
+}
+
+/**
+ * Volume enclosed by a triangle mesh in its own units, by summing signed
+ * tetrahedra against the origin. Only exact for closed meshes; closed is
+ * false when some edge isn't shared by exactly two triangles.
+ */
+export const computeGeometryVolume = (geometry: THREE.BufferGeometry): GeometryVolume => {
+  const positions = geometry.getAttribute('position')
+  if (!positions) return { volume: 0, closed: true }
+  const index = geometry.getIndex()
+  const triangleCount = index ? index.count / 3 : positions.count / 3
+
+  // Vertices are often duplicated along UV seams, so match edges by position
+  const vertexIds = new Map<string, number>()
+  const vertexId = (i: number) => {
+    const key = `${Math.round(positions.getX(i) * 1e6)},${Math.round(positions.getY(i) * 1e6)},${Math.round(positions.getZ(i) * 1e6)}`
+    let id = vertexIds.get(key)
+    if (id === undefined) {
+      id = vertexIds.size
+      vertexIds.set(key, id)
+    }
+    return id
+  }
+
+  const edges = new Map<string, number>()
+  const a = new THREE.Vector3()
+  const b = new THREE.Vector3()
+  const c = new THREE.Vector3()
+  let volume = 0
+
+  for (let t = 0; t < triangleCount; t++) {
+    const i = index ? [index.getX(t * 3), index.getX(t * 3 + 1), index.getX(t * 3 + 2)] : [t * 3, t * 3 + 1, t * 3 + 2]
+    a.fromBufferAttribute(positions, i[0])
+    b.fromBufferAttribute(positions, i[1])
+    c.fromBufferAttribute(positions, i[2])
+    volume += a.dot(b.cross(c)) / 6
+
+    const ids = i.map(vertexId)
+    // Triangles collapsed onto a point or line (sphere poles) don't form edges
+    if (ids[0] === ids[1] || ids[1] === ids[2] || ids[2] === ids[0]) continue
+    for (let e = 0; e < 3; e++) {
+      const from = ids[e]
+      const to = ids[(e + 1) % 3]
+      const key = from < to ? `${from}_${to}` : `${to}_${from}`
+      edges.set(key, (edges.get(key) ?? 0) + 1)
+    }
+  }
+
+  const closed = [...edges.values()].every((count) => count === 2)
+  return { volume: Math.abs(volume), closed }
+}
@@ -0,0 +1,213 @@
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { CHARM_MILLIMETRES_PER_UNIT, MILLIMETRES_PER_UNIT } from '../types'
+import type { JewelryMaterial, Necklace } from '../types'
+import { JewelryMaterials } from './materials'
+import { HIDE_IN_EXPORT } from './stillExport'
+import { keepDetailLevel } from './levelOfDetail'
+import { layoutFallbackNecklace } from './modelFallbacks'
+
+// The live objects making up a rendered necklace
+export interface NecklaceExportParts {
+  necklace: Necklace
+  root: THREE.Object3D // Transforms are exported relative to this
+  base: THREE.Object3D
+  charms: Array<{ object: THREE.Object3D; charmIndex: number }> // Charm groups at their resolved attachment transforms
+  attachmentFrames: Record<string, { position: THREE.Vector3; quaternion: THREE.Quaternion }> // By attachment point ID, relative to root
+  basePath?: THREE.Curve<THREE.Vector3> // The path procedural base parts follow
+}
+
+// glTF is in metres
+const METRES_PER_UNIT = MILLIMETRES_PER_UNIT / 1000
+
+/**
+ * The viewer's material for a JewelryMaterial, as one GLTFExporter can
+ * write: standard and physical materials map onto glTF PBR and its
+ * extensions (transmission, IOR, clearcoat, sheen, dispersion), anything
+ * else is approximated by a standard material
+ */
+const createExportMaterial = (materialDef: JewelryMaterial): THREE.Material => {
+  const material = JewelryMaterials.createMaterial(materialDef)
+  if (material instanceof THREE.MeshStandardMaterial) {
+    material.name = materialDef.name
+    return material
+  }
+
+  const standard = new THREE.MeshStandardMaterial({
+    name: materialDef.name,
+    color: materialDef.color,
+    metalness: materialDef.metallic ?? 0,
+    roughness: materialDef.roughness ?? 1,
+    transparent: material.transparent,
+    opacity: material.opacity,
+  })
+  material.dispose()
+  return standard
+}
+
+/**
+ * Deep copy of a rendered part, positioned relative to the necklace root,
+ * at full detail, with its materials replaced and anything that isn't
+ * jewellery (lights, helper lines, overlays) left out
+ */
+const cloneForExport = (
+  object: THREE.Object3D,
+  rootInverse: THREE.Matrix4,
+  material: THREE.Material
+) => {
+  const clone = object.clone(true)
+  const unwanted: THREE.Object3D[] = []
+  clone.traverse((child) => {
+    if (child.userData[HIDE_IN_EXPORT] || child instanceof THREE.Light || (child instanceof THREE.Line && !(child instanceof THREE.Mesh))) {
+      unwanted.push(child)
+    } else if (child instanceof THREE.Mesh) {
+      child.material = material
+    }
+    // Runtime bookkeeping isn't useful in the file
+    delete child.userData.originalMaterial
+  })
+  unwanted.forEach((child) => child.removeFromParent())
+  keepDetailLevel(clone, 0)
+
+  object.updateWorldMatrix(true, false)
+  new THREE.Matrix4()
+    .multiplyMatrices(rootInverse, object.matrixWorld)
+    .decompose(clone.position, clone.quaternion, clone.scale)
+  return clone
+}
+
+// Width, height and depth of an object's meshes in its own frame
+const measureLocalSize = (object: THREE.Object3D) => {
+  object.updateMatrixWorld(true)
+  const toLocal = object.matrixWorld.clone().invert()
+  const bounds = new THREE.Box3()
+  const meshBounds = new THREE.Box3()
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    if (!child.geometry.boundingBox) child.geometry.computeBoundingBox()
+    meshBounds.copy(child.geometry.boundingBox).applyMatrix4(new THREE.Matrix4().multiplyMatrices(toLocal, child.matrixWorld))
+    bounds.union(meshBounds)
+  })
+  return bounds.isEmpty() ? new THREE.Vector3() : bounds.getSize(new THREE.Vector3())
+}
+
+/**
+ * Standalone scene of the necklace as designed: the base (loaded model or
+ * procedural chain) in its current drape, each charm at its attachment
+ * point without the idle sway, and an empty node per attachment point.
+ * Charms are drawn larger than life in the viewer; here they're at the
+ * real size they're quoted and weighed at. Design data goes into node
+ * extras.
+ */
+export const buildNecklaceExportScene = ({ necklace, root, base, charms, attachmentFrames, basePath }: NecklaceExportParts) => {
+  root.updateWorldMatrix(true, false)
+  const rootInverse = root.matrixWorld.clone().invert()
+  const materials = new Map<JewelryMaterial, THREE.Material>()
+  const getMaterial = (materialDef: JewelryMaterial) => {
+    let material = materials.get(materialDef)
+    if (!material) {
+      material = createExportMaterial(materialDef)
+      materials.set(materialDef, material)
+    }
+    return material
+  }
+
+  const scene = new THREE.Scene()
+  const necklaceNode = new THREE.Group()
+  necklaceNode.name = necklace.name
+  necklaceNode.scale.setScalar(METRES_PER_UNIT)
+  necklaceNode.userData = {
+    necklaceId: necklace.id,
+    description: necklace.metadata.description,
+    category: necklace.metadata.category,
+    tags: necklace.metadata.tags,
+  }
+  scene.add(necklaceNode)
+
+  const baseNode = cloneForExport(base, rootInverse, getMaterial(necklace.base.material))
+  // Full-detail parts don't follow the chain while a simpler level is shown
+  if (basePath) layoutFallbackNecklace(keepDetailLevel(baseNode, 0), basePath)
+  baseNode.name = necklace.base.name
+  baseNode.userData = {
+    baseId: necklace.base.id,
+    type: necklace.base.type,
+    chainStyle: necklace.base.chainStyle,
+    material: necklace.base.material.name,
+    lengthMillimetres: necklace.base.length * MILLIMETRES_PER_UNIT,
+  }
+  necklaceNode.add(baseNode)
+
+  necklace.base.attachmentPoints.forEach((point) => {
+    const frame = attachmentFrames[point.id]
+    if (!frame) return
+    const pointNode = new THREE.Object3D()
+    pointNode.name = `attachment:${point.id}`
+    pointNode.position.copy(frame.position)
+    pointNode.quaternion.copy(frame.quaternion)
+    pointNode.userData = {
+      attachmentPoint: {
+        id: point.id,
+        type: point.type,
+        maxCharmSize: point.maxCharmSize,
+        occupied: point.occupied,
+        pathParameter: point.pathParameter,
+      },
+    }
+    necklaceNode.add(pointNode)
+  })
+
+  charms.forEach(({ object, charmIndex }) => {
+    const placement = necklace.charms[charmIndex]
+    const { charm } = placement
+    const charmNode = cloneForExport(object, rootInverse, getMaterial(charm.material))
+    // The charm's own group carries the sway and bounce animation
+    charmNode.children.forEach((child) => {
+      child.position.set(0, 0, 0)
+      child.rotation.set(0, 0, 0)
+    })
+    // Scaled about the charm's origin, which sits on its attachment point
+    const millimetresPerUnit = CHARM_MILLIMETRES_PER_UNIT * charm.size
+    charmNode.scale.multiplyScalar(millimetresPerUnit / MILLIMETRES_PER_UNIT)
+    const sizeMillimetres = measureLocalSize(charmNode).multiplyScalar(millimetresPerUnit)
+    charmNode.name = charm.name
+    charmNode.userData = {
+      charmId: charm.id,
+      type: charm.type,
+      gem: charm.gem,
+      attachmentPointId: placement.attachmentPointId,
+      attachmentType: charm.attachmentType,
+      material: charm.material.name,
+      size: charm.size,
+      sizeMillimetres: sizeMillimetres.toArray().map((length) => Number(length.toFixed(2))),
+      weightGrams: charm.weight,
+      customPosition: Boolean(placement.customPosition),
+      customRotation: Boolean(placement.customRotation),
+    }
+    necklaceNode.add(charmNode)
+  })
+
+  return scene
+}
+
+/**
+ * Binary glTF of the necklace as designed; see buildNecklaceExportScene
+ */
+export const exportNecklaceGLB = async (parts: NecklaceExportParts): Promise<ArrayBuffer> => {
+  const scene = buildNecklaceExportScene(parts)
+  const materials = new Set<THREE.Material>()
+  scene.traverse((child) => {
+    if (child instanceof THREE.Mesh) materials.add(child.material)
+  })
+
+  try {
+    return await new GLTFExporter().parseAsync(scene, { binary: true, onlyVisible: true }) as ArrayBuffer
+  } finally {
+    materials.forEach((material) => {
+      if (material instanceof THREE.MeshStandardMaterial) {
+        material.map?.dispose()
+        material.normalMap?.dispose()
+      }
+      material.dispose()
+    })
+  }
+}
@@ -0,0 +1,61 @@
+import * as THREE from 'three'
+
+// Camera distances (3D units) at which each coarser level takes over
+export const CHAIN_LOD_DISTANCES = [3.5, 8] // Full links, simpler links, tube impostor
+export const GEMSTONE_LOD_DISTANCES = [5] // Faceted cut, simple solid
+export const MODEL_LOD_DISTANCES = [3.5, 8, 14] // The model, then its lodModelPaths in order
+
+// How far past a threshold (as a fraction of it) the camera has to move
+// before the level changes, so sitting on a boundary doesn't flicker
+export const LOD_HYSTERESIS = 0.1
+
+// userData key: the detail levels a part is shown at. Untagged parts show at every level.
+export const DETAIL_LEVELS = 'detailLevels'
+
+/**
+ * Detail level for an object at a distance from the camera: 0 nearer than
+ * distances[0], 1 up to distances[1], and so on. Moving from the current
+ * level takes an extra LOD_HYSTERESIS either side of each threshold.
+ */
+export const selectDetailLevel = (
+  distance: number,
+  current: number,
+  distances: readonly number[],
+  hysteresis: number = LOD_HYSTERESIS
+): number => {
+  let level = Math.min(current, distances.length)
+  while (level < distances.length && distance > distances[level] * (1 + hysteresis)) level++
+  while (level > 0 && distance < distances[level - 1] * (1 - hysteresis)) level--
+  return level
+}
+
+export const setDetailLevels = <T extends THREE.Object3D>(object: T, levels: number[]): T => {
+  object.userData[DETAIL_LEVELS] = levels
+  return object
+}
+
+export const isShownAtLevel = (object: THREE.Object3D, level: number) => {
+  const levels: number[] | undefined = object.userData[DETAIL_LEVELS]
+  return !levels || levels.includes(level)
+}
+
+/**
+ * Remove the parts of an object that aren't shown at a level and make the
+ * ones that are visible, e.g. to weigh or export at full detail whatever
+ * the camera distance. Returns the tagged parts that were kept.
+ */
+export const keepDetailLevel = (object: THREE.Object3D, level: number = 0): THREE.Object3D[] => {
+  const removed: THREE.Object3D[] = []
+  const kept: THREE.Object3D[] = []
+  object.traverse((child) => {
+    if (child.userData[DETAIL_LEVELS] === undefined) return
+    if (isShownAtLevel(child, level)) {
+      child.visible = true
+      kept.push(child)
+    } else {
+      removed.push(child)
+    }
+  })
+  removed.forEach((child) => child.removeFromParent())
+  return kept
+}
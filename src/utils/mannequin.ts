@@ -0,0 +1,77 @@
+import * as THREE from 'three'
+import { LatheCollider, type LatheColliderOptions } from './physics'
+
+// Procedural display bust. Each part is a surface of revolution, so the same
+// profile builds both the visible mesh and the collision shape the chain
+// rests on. Proportions assume an 18" (457 mm) chain is 8 units long.
+export interface MannequinPart {
+  name: string
+  profile: THREE.Vector2[] // (radius, height) pairs from bottom to top
+  options: Required<LatheColliderOptions>
+}
+
+const toProfile = (points: Array<[number, number]>) => points.map(([radius, y]) => new THREE.Vector2(radius, y))
+
+export const MANNEQUIN_PARTS: MannequinPart[] = [
+  {
+    // Chest and shoulders, leaning back slightly like a jewelry display form
+    // so the collarbone sits lower at the front than the nape
+    name: 'torso',
+    profile: toProfile([
+      [0, -3],
+      [2.5, -3],
+      [2.75, -2.5],
+      [2.85, -2],
+      [2.7, -1.6],
+      [2.2, -1.3],
+      [1.6, -1.05],
+      [1.15, -0.8],
+      [0.95, -0.55],
+      [0.9, -0.3],
+    ]),
+    options: { depthScale: 0.6, position: [0, 0, 0], rotation: [0.2, 0, 0] },
+  },
+  {
+    // Neck column, tilted forward from the shoulders
+    name: 'neck',
+    profile: toProfile([
+      [0.95, -1],
+      [0.88, 0],
+      [0.85, 1],
+      [0.75, 1.35],
+      [0, 1.5],
+    ]),
+    options: { depthScale: 0.85, position: [0, 0, -0.15], rotation: [0.15, 0, 0] },
+  },
+]
+
+// Chain rest height above the shoulders, clear of the neck, before it settles
+export const MANNEQUIN_DROP_HEIGHT = 0.5
+
+export const createMannequinColliders = () =>
+  MANNEQUIN_PARTS.map((part) => new LatheCollider(part.profile, part.options))
+
+export const createMannequinGeometry = (part: MannequinPart, segments: number = 64) => {
+  const geometry = new THREE.LatheGeometry(part.profile, segments)
+  geometry.scale(1, 1, part.options.depthScale)
+  return geometry
+}
+
+// The bust never changes shape, so it's built once and shared by every
+// display of it: switching display modes doesn't leave copies behind
+let sharedColliders: LatheCollider[] | null = null
+const sharedGeometries = new Map<MannequinPart, THREE.BufferGeometry>()
+
+export const getMannequinColliders = () => {
+  if (!sharedColliders) sharedColliders = createMannequinColliders()
+  return sharedColliders
+}
+
+export const getMannequinGeometry = (part: MannequinPart) => {
+  let geometry = sharedGeometries.get(part)
+  if (!geometry) {
+    geometry = createMannequinGeometry(part)
+    sharedGeometries.set(part, geometry)
+  }
+  return geometry
+}
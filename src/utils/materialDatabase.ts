@@ -0,0 +1,105 @@
+import { GEM_DATABASE, METAL_DATABASE } from '../types'
+import type { GemData, JewelryMaterial, MaterialData, MaterialDatabaseKey, MaterialOverrides, MetalData } from '../types'
+
+export class MaterialDatabaseError extends Error {
+  readonly key: string
+
+  constructor(key: string, message: string) {
+    super(message)
+    this.name = 'MaterialDatabaseError'
+    this.key = key
+  }
+}
+
+export const MATERIAL_DATABASE: Record<MaterialDatabaseKey, MaterialData> = { ...GEM_DATABASE, ...METAL_DATABASE }
+
+export const MATERIAL_DATABASE_KEYS = Object.keys(MATERIAL_DATABASE) as MaterialDatabaseKey[]
+
+export const isMaterialDatabaseKey = (key: string): key is MaterialDatabaseKey => Object.prototype.hasOwnProperty.call(MATERIAL_DATABASE, key)
+
+/**
+ * The reference entry for a material: the one it was made from, else the
+ * one of its type with the same name, so hand-written definitions like
+ * `{ type: 'gemstone', name: 'Ruby', … }` still get a ruby's facts
+ */
+export const findMaterialData = (material: JewelryMaterial): MaterialData | undefined => {
+  if (material.databaseKey) return MATERIAL_DATABASE[material.databaseKey]
+  const name = material.name.toLowerCase()
+  return Object.values(MATERIAL_DATABASE).find((data) => data.type === material.type && data.name.toLowerCase() === name)
+}
+
+/**
+ * Refractive index (nD) and dispersion a stone renders with: its own,
+ * else its reference entry's, else plain glass without fire
+ */
+export const getGemOptics = (material: JewelryMaterial) => {
+  const data = findMaterialData(material)
+  const gem = data?.type === 'gemstone' ? data : undefined
+  return {
+    refraction: material.refraction ?? gem?.refractiveIndex ?? 1.5,
+    dispersion: material.dispersion ?? gem?.dispersion ?? 0,
+  }
+}
+
+// Fraunhofer lines, in nm: gem dispersion is quoted between B and G,
+// optics (and three.js) use C and F
+export const FRAUNHOFER_WAVELENGTHS = { B: 686.7, C: 656.3, D: 589.3, F: 486.1, G: 430.8 }
+
+/**
+ * Refractive index at a wavelength in nm, from nD and the B–G dispersion,
+ * following Cauchy's n = A + K / λ². For diamond that gives nC 2.410 and
+ * nF 2.435.
+ */
+export const getRefractiveIndexAt = (refraction: number, dispersion: number, wavelength: number) => {
+  const { B, D, G } = FRAUNHOFER_WAVELENGTHS
+  const k = dispersion / (1 / G ** 2 - 1 / B ** 2)
+  return refraction + k * (1 / wavelength ** 2 - 1 / D ** 2)
+}
+
+const fromGem = (key: MaterialDatabaseKey, gem: GemData): JewelryMaterial => ({
+  type: 'gemstone',
+  name: gem.name,
+  color: gem.colors[0].typical,
+  roughness: 0.01,
+  transparency: gem.transparency,
+  refraction: gem.refractiveIndex,
+  dispersion: gem.dispersion,
+  databaseKey: key,
+})
+
+// A metal's base colour is its F0, which is what metalness shading expects
+const fromMetal = (key: MaterialDatabaseKey, metal: MetalData): JewelryMaterial => ({
+  type: 'metal',
+  name: metal.name,
+  color: metal.reflectance,
+  metallic: 1,
+  roughness: 0.1,
+  databaseKey: key,
+})
+
+/**
+ * A material from a reference entry, polished unless overridden. Overrides
+ * change how it looks (a brushed finish, a paler stone); weight and the
+ * info panel keep reading the entry's facts. Throws MaterialDatabaseError
+ * for keys not in the database.
+ */
+export const createDatabaseMaterial = (key: string, overrides: MaterialOverrides = {}): JewelryMaterial => {
+  if (!isMaterialDatabaseKey(key)) {
+    throw new MaterialDatabaseError(key, `'${key}' isn't in the material database`)
+  }
+  const data = MATERIAL_DATABASE[key]
+  const material = data.type === 'gemstone' ? fromGem(key, data) : fromMetal(key, data)
+  return { ...material, ...overrides }
+}
+
+// Refractive index as a range for doubly refractive stones, e.g. '1.762–1.770'
+export const formatRefractiveIndex = (gem: GemData) =>
+  gem.birefringence > 0
+    ? `${gem.refractiveIndex.toFixed(3)}–${(gem.refractiveIndex + gem.birefringence).toFixed(3)}`
+    : gem.refractiveIndex.toFixed(3)
+
+// e.g. '75% Au, 12.5% Ag, 12.5% Cu'
+export const formatComposition = (metal: MetalData) =>
+  Object.entries(metal.composition)
+    .map(([element, fraction]) => `${Number((fraction * 100).toFixed(2))}% ${element}`)
+    .join(', ')
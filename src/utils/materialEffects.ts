@@ -0,0 +1,84 @@
+import * as THREE from 'three'
+import type { MaterialEffect } from '../types'
+
+export const MATERIAL_EFFECTS: MaterialEffect[] = ['shimmer', 'pulse', 'rainbow', 'sparkle']
+
+// Seconds, shared by every effect material so they all stay in step;
+// advanced once a frame by useMaterialEffectClock
+export const materialEffectTime: THREE.IUniform<number> = { value: 0 }
+
+// Each effect scales or tints the specular light the material already
+// reflects, after lighting and before transmission, clearcoat and tone
+// mapping. Diffuse, metalness and roughness are untouched, so metals keep
+// their coloured reflections and gems their refraction.
+const EFFECT_SHADERS: Record<MaterialEffect, string> = {
+  // A soft band of extra brightness travelling diagonally across the piece
+  shimmer: /* glsl */ `
+    float effectBand = pow( 0.5 + 0.5 * sin( dot( vEffectPosition, vec3( 6.0, 3.0, 0.0 ) ) - effectTime * 3.0 ), 4.0 );
+    float effectGain = 1.0 + effectStrength * 0.6 * effectBand;
+    reflectedLight.directSpecular *= effectGain;
+    reflectedLight.indirectSpecular *= effectGain;
+  `,
+  // The whole piece brightening and settling, about every three seconds
+  pulse: /* glsl */ `
+    float effectGain = 1.0 + effectStrength * 0.4 * ( 0.5 + 0.5 * sin( effectTime * 2.0 ) );
+    reflectedLight.directSpecular *= effectGain;
+    reflectedLight.indirectSpecular *= effectGain;
+  `,
+  // Thin-film colours towards grazing angles, drifting over time; the
+  // tint keeps the reflection's brightness
+  rainbow: /* glsl */ `
+    float effectGrazing = 1.0 - saturate( dot( normal, geometryViewDir ) );
+    vec3 effectHue = 0.5 + 0.5 * cos( 6.28318 * ( vec3( 0.0, 0.33, 0.67 ) + effectGrazing * 1.5 + effectTime * 0.2 ) );
+    effectHue /= max( dot( effectHue, vec3( 0.2126, 0.7152, 0.0722 ) ), 0.2 );
+    vec3 effectTint = mix( vec3( 1.0 ), effectHue, effectStrength * 0.35 * effectGrazing );
+    reflectedLight.directSpecular *= effectTint;
+    reflectedLight.indirectSpecular *= effectTint;
+  `,
+  // A band sweeping left to right, lighting up pinpoint glints in the
+  // material's own specular colour as it passes
+  sparkle: /* glsl */ `
+    float effectSweep = mod( effectTime * 1.5, 8.0 ) - 4.0;
+    float effectBand = 1.0 - smoothstep( 0.0, 0.4, abs( vEffectPosition.x - effectSweep ) );
+    vec3 effectCell = floor( vEffectPosition * 60.0 ) + floor( effectTime * 8.0 );
+    float effectGlint = step( 0.97, fract( sin( dot( effectCell, vec3( 12.9898, 78.233, 37.719 ) ) ) * 43758.5453 ) );
+    reflectedLight.directSpecular *= 1.0 + effectStrength * 0.3 * effectBand;
+    reflectedLight.indirectSpecular += material.specularColor * effectGlint * effectBand * effectStrength * 3.0;
+  `,
+}
+
+/**
+ * Add an animated highlight to a standard or physical material, keeping
+ * its full PBR shading. Other materials (e.g. fabric's Lambert) are
+ * returned unchanged. The effect follows materialEffectTime; strength
+ * scales it, 1 being the intended look.
+ */
+export const applyMaterialEffect = <T extends THREE.Material>(material: T, effect: MaterialEffect, strength: number = 1): T => {
+  if (!(material instanceof THREE.MeshStandardMaterial)) return material
+
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.effectTime = materialEffectTime
+    shader.uniforms.effectStrength = { value: strength }
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vEffectPosition;')
+      .replace('#include <worldpos_vertex>', /* glsl */ `#include <worldpos_vertex>
+        vec4 effectPosition = vec4( transformed, 1.0 );
+        #ifdef USE_BATCHING
+          effectPosition = batchingMatrix * effectPosition;
+        #endif
+        #ifdef USE_INSTANCING
+          effectPosition = instanceMatrix * effectPosition;
+        #endif
+        vEffectPosition = ( modelMatrix * effectPosition ).xyz;
+      `)
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform float effectTime;\nuniform float effectStrength;\nvarying vec3 vEffectPosition;')
+      .replace('#include <aomap_fragment>', `#include <aomap_fragment>\n${EFFECT_SHADERS[effect]}`)
+  }
+  // Same effect, same program; plain materials of the same type keep theirs
+  material.customProgramCacheKey = () => `material-effect:${effect}`
+  material.userData.effect = effect
+  return material
+}
@@ -0,0 +1,213 @@
+import * as THREE from 'three'
+import { METALS } from '../types'
+import type { JewelryMaterial, MaterialEffect } from '../types'
+import { JewelryMaterials, PREMIUM_MATERIALS } from './materials'
+import { createGemstoneMaterial } from './gemstoneRenderer'
+import { parseDesign, serializeDesign } from './serialization'
+
+const STORAGE_KEY = 'play3d.material-presets'
+
+// Render materials kept for reuse; past this, the least recently used go.
+// Editing a colour makes a new definition at every step, so this is what
+// stops them piling up.
+export const RENDER_MATERIAL_CACHE_SIZE = 64
+
+export interface MaterialPreset {
+  id: string // e.g. 'GOLD_18K'; what catalogs and code look it up by
+  label: string // Shown in pickers; the material's own name keeps driving weight and price
+  material: JewelryMaterial
+  builtIn: boolean // Built-in presets can't be replaced or removed
+}
+
+export class MaterialRegistryError extends Error {
+  readonly presetId: string
+
+  constructor(presetId: string, message: string) {
+    super(message)
+    this.name = 'MaterialRegistryError'
+    this.presetId = presetId
+  }
+}
+
+// Definitions that render the same share a key. The name and database
+// key count, as unset optics are looked up by them.
+const materialKey = (material: JewelryMaterial) => JSON.stringify([
+  material.type,
+  material.name,
+  material.color.toLowerCase(),
+  material.metallic,
+  material.roughness,
+  material.transparency,
+  material.refraction,
+  material.dispersion,
+  material.textureUrl,
+  material.normalMapUrl,
+  material.databaseKey,
+])
+
+// 'My Satin Gold' -> 'MY_SATIN_GOLD', matching the built-in preset IDs
+export const toPresetId = (label: string) =>
+  label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+
+/**
+ * Every material preset, built-in and saved by the user, and the Three.js
+ * material each definition renders with. Charms, chains and loaded models
+ * all take their material from getRenderMaterial, so the same definition
+ * always looks the same wherever it's used.
+ */
+export class MaterialRegistry {
+  private presets = new Map<string, MaterialPreset>()
+  private renderMaterials = new Map<string, THREE.Material>()
+  private listeners = new Set<() => void>()
+  private snapshot: MaterialPreset[] = []
+
+  // Add a built-in preset
+  register(id: string, material: JewelryMaterial, label: string = material.name) {
+    if (this.presets.has(id)) {
+      throw new MaterialRegistryError(id, `Material preset ${id} is already registered`)
+    }
+    this.presets.set(id, { id, label, material, builtIn: true })
+    this.changed()
+  }
+
+  get(id: string): JewelryMaterial | undefined {
+    return this.presets.get(id)?.material
+  }
+
+  // Every preset, built-ins first; the same array until one changes
+  getPresets = (): MaterialPreset[] => this.snapshot
+
+  // The preset a material was picked from, if any
+  findPresetId(material: JewelryMaterial): string | undefined {
+    const key = materialKey(material)
+    return this.snapshot.find((preset) => materialKey(preset.material) === key)?.id
+  }
+
+  /**
+   * Add or replace a preset of the user's own, saved to localStorage.
+   * Returns its ID.
+   */
+  savePreset(label: string, material: JewelryMaterial): string {
+    const id = toPresetId(label)
+    if (!id) {
+      throw new MaterialRegistryError(id, 'Material presets need a name')
+    }
+    if (this.presets.get(id)?.builtIn) {
+      throw new MaterialRegistryError(id, `${label} is a built-in material; choose another name`)
+    }
+    this.presets.set(id, { id, label: label.trim(), material, builtIn: false })
+    this.changed()
+    this.persist()
+    return id
+  }
+
+  removePreset(id: string) {
+    const preset = this.presets.get(id)
+    if (!preset) return
+    if (preset.builtIn) {
+      throw new MaterialRegistryError(id, `${preset.label} is a built-in material and can't be removed`)
+    }
+    this.presets.delete(id)
+    this.changed()
+    this.persist()
+  }
+
+  // Restore the user's saved presets, dropping any that no longer parse
+  loadSavedPresets() {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (!saved) return
+
+    let documents: Record<string, { label?: unknown; document?: unknown }>
+    try {
+      documents = JSON.parse(saved)
+      if (typeof documents !== 'object' || documents === null) throw new TypeError('expected an object keyed by preset ID')
+    } catch (error) {
+      console.warn('Discarding saved material presets', error)
+      localStorage.removeItem(STORAGE_KEY)
+      return
+    }
+
+    Object.entries(documents).forEach(([id, entry]) => {
+      if (this.presets.get(id)?.builtIn) return
+      try {
+        const material = parseDesign('material', entry.document)
+        const label = typeof entry.label === 'string' ? entry.label : material.name
+        this.presets.set(id, { id, label, material, builtIn: false })
+      } catch (error) {
+        console.warn(`Discarding saved material preset ${id}`, error)
+      }
+    })
+    this.changed()
+    this.persist()
+  }
+
+  /**
+   * The shared Three.js material for a definition, with an animated
+   * highlight if given one. Don't dispose it or change it in place; it's
+   * the one every object with that definition uses.
+   */
+  getRenderMaterial(material: JewelryMaterial, effect?: MaterialEffect): THREE.Material {
+    return this.cached(`${materialKey(material)}:${effect ?? 'none'}`, () => {
+      const renderMaterial = effect
+        ? JewelryMaterials.createAnimatedMaterial(material, effect)
+        : JewelryMaterials.createMaterial(material)
+      renderMaterial.name = material.name
+      return renderMaterial
+    })
+  }
+
+  /**
+   * The shared ray-traced material for stones of this definition, whatever
+   * their cut; see createGemstoneMaterial. Highlights don't apply, the
+   * stone's own fire does that job.
+   */
+  getGemstoneMaterial(material: JewelryMaterial): THREE.Material {
+    return this.cached(`${materialKey(material)}:gem`, () => createGemstoneMaterial(material))
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Most recently used last. Evicted materials are disposed with the
+  // textures they made (a pearl's lustre, loaded maps); anything still
+  // drawing one just has it set up again on its next frame.
+  private cached(key: string, create: () => THREE.Material): THREE.Material {
+    const renderMaterial = this.renderMaterials.get(key) ?? create()
+    this.renderMaterials.delete(key)
+    this.renderMaterials.set(key, renderMaterial)
+    for (const [oldestKey, oldest] of this.renderMaterials) {
+      if (this.renderMaterials.size <= RENDER_MATERIAL_CACHE_SIZE) break
+      this.renderMaterials.delete(oldestKey)
+      if (oldest instanceof THREE.MeshStandardMaterial) {
+        oldest.map?.dispose()
+        oldest.normalMap?.dispose()
+      }
+      oldest.dispose()
+    }
+    return renderMaterial
+  }
+
+  private changed() {
+    this.snapshot = [...this.presets.values()].sort((a, b) => Number(!a.builtIn) - Number(!b.builtIn))
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private persist() {
+    const documents = Object.fromEntries(
+      this.snapshot
+        .filter((preset) => !preset.builtIn)
+        .map((preset) => [preset.id, { label: preset.label, document: serializeDesign('material', preset.material) }])
+    )
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(documents))
+  }
+}
+
+export const materialRegistry = new MaterialRegistry()
+
+Object.entries(METALS).forEach(([id, material]) => materialRegistry.register(id, material))
+Object.entries(PREMIUM_MATERIALS).forEach(([id, material]) => materialRegistry.register(id, material))
+materialRegistry.loadSavedPresets()
@@ -1,5 +1,7 @@
 import * as THREE from 'three'
-import type { JewelryMaterial } from '../types'
+import type { JewelryMaterial, MaterialEffect } from '../types'
+import { applyMaterialEffect } from './materialEffects'
+import { createDatabaseMaterial, FRAUNHOFER_WAVELENGTHS, getGemOptics, getRefractiveIndexAt } from './materialDatabase'
 
 // Enhanced material creation utilities for realistic jewelry rendering
 export class JewelryMaterials {
@@ -10,8 +12,8 @@ export class JewelryMaterials {
   static createMetalMaterial(materialDef: JewelryMaterial): THREE.MeshStandardMaterial {
     const material = new THREE.MeshStandardMaterial({
       color: new THREE.Color(materialDef.color),
-      metalness: materialDef.metallic || 1.0,
-      roughness: materialDef.roughness || 0.1,
+      metalness: materialDef.metallic ?? 1.0,
+      roughness: materialDef.roughness ?? 0.1,
       envMapIntensity: 1.5, // Enhanced environment reflections
       
       // Add subtle color variation for realism
@@ -41,14 +43,15 @@ export class JewelryMaterials {
    * Create a gemstone material with refraction and crystal clarity
    */
   static createGemstoneMaterial(materialDef: JewelryMaterial): THREE.MeshPhysicalMaterial {
+    const { refraction, dispersion } = getGemOptics(materialDef)
     const material = new THREE.MeshPhysicalMaterial({
       color: new THREE.Color(materialDef.color),
       metalness: 0,
-      roughness: materialDef.roughness || 0.02,
+      roughness: materialDef.roughness ?? 0.02,
       
       // Refraction properties
-      transmission: materialDef.transparency || 0.95,
-      ior: materialDef.refraction || 1.5,
+      transmission: materialDef.transparency ?? 0.95,
+      ior: refraction,
       thickness: 0.8,
       
       // Crystal properties
@@ -65,9 +68,12 @@ export class JewelryMaterials {
       emissiveIntensity: 0.3,
     })
 
-    // Add dispersion effect for diamonds/crystals
-    if (materialDef.name.toLowerCase().includes('diamond')) {
-      material.dispersion = 0.05
+    // Fire: three.js (like glTF) takes dispersion as 20 / Abbe number,
+    // which is measured across C–F rather than the gemmological B–G
+    if (dispersion) {
+      const { C, F } = FRAUNHOFER_WAVELENGTHS
+      const spread = getRefractiveIndexAt(refraction, dispersion, F) - getRefractiveIndexAt(refraction, dispersion, C)
+      material.dispersion = (20 * spread) / (material.ior - 1)
     }
 
     return material
@@ -79,8 +85,8 @@ export class JewelryMaterials {
   static createPearlMaterial(materialDef: JewelryMaterial): THREE.MeshStandardMaterial {
     const material = new THREE.MeshStandardMaterial({
       color: new THREE.Color(materialDef.color),
-      metalness: materialDef.metallic || 0.1,
-      roughness: materialDef.roughness || 0.2,
+      metalness: materialDef.metallic ?? 0.1,
+      roughness: materialDef.roughness ?? 0.2,
       
       // Pearl luster
       envMapIntensity: 1.8,
@@ -129,8 +135,9 @@ export class JewelryMaterials {
   static createFabricMaterial(materialDef: JewelryMaterial): THREE.MeshLambertMaterial {
     return new THREE.MeshLambertMaterial({
       color: new THREE.Color(materialDef.color),
-      transparent: materialDef.transparency ? true : false,
-      opacity: materialDef.transparency || 1.0,
+      // Transparency is how see-through it is, as for gemstones
+      transparent: (materialDef.transparency ?? 0) > 0,
+      opacity: 1 - (materialDef.transparency ?? 0),
     })
   }
 
@@ -141,7 +148,7 @@ export class JewelryMaterials {
     return new THREE.MeshStandardMaterial({
       color: new THREE.Color(materialDef.color),
       metalness: 0,
-      roughness: materialDef.roughness || 0.8,
+      roughness: materialDef.roughness ?? 0.8,
       normalScale: new THREE.Vector2(1.0, 1.0),
     })
   }
@@ -192,123 +199,25 @@ export class JewelryMaterials {
   }
 
   /**
-   * Create animated materials with time-based effects
+   * Create a material with an animated highlight over its usual shading;
+   * see applyMaterialEffect
    */
-  static createAnimatedMaterial(
-    materialDef: JewelryMaterial, 
-    animationType: 'shimmer' | 'pulse' | 'rainbow'
-  ): THREE.ShaderMaterial {
-    // Base material available via this.createMaterial(materialDef) if needed
-    
-    const vertexShader = `
-      varying vec2 vUv;
-      varying vec3 vNormal;
-      varying vec3 vWorldPosition;
-      
-      void main() {
-        vUv = uv;
-        vNormal = normalize(normalMatrix * normal);
-        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
-        vWorldPosition = worldPosition.xyz;
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-      }
-    `
-    
-    const fragmentShader = `
-      uniform float time;
-      uniform vec3 color;
-      uniform float metalness;
-      uniform float roughness;
-      
-      varying vec2 vUv;
-      varying vec3 vNormal;
-      varying vec3 vWorldPosition;
-      
-      void main() {
-        vec3 finalColor = color;
-        
-        ${animationType === 'shimmer' ? `
-          float shimmer = sin(time * 3.0 + vWorldPosition.x * 10.0) * 0.1 + 0.9;
-          finalColor *= shimmer;
-        ` : ''}
-        
-        ${animationType === 'pulse' ? `
-          float pulse = sin(time * 2.0) * 0.2 + 0.8;
-          finalColor *= pulse;
-        ` : ''}
-        
-        ${animationType === 'rainbow' ? `
-          float rainbow = sin(time + vWorldPosition.x) * 0.5 + 0.5;
-          finalColor = mix(finalColor, vec3(rainbow, 1.0 - rainbow, 0.5), 0.3);
-        ` : ''}
-        
-        gl_FragColor = vec4(finalColor, 1.0);
-      }
-    `
-    
-    return new THREE.ShaderMaterial({
-      uniforms: {
-        time: { value: 0 },
-        color: { value: new THREE.Color(materialDef.color) },
-        metalness: { value: materialDef.metallic || 0 },
-        roughness: { value: materialDef.roughness || 0.5 },
-      },
-      vertexShader,
-      fragmentShader,
-    })
+  static createAnimatedMaterial(materialDef: JewelryMaterial, animationType: MaterialEffect): THREE.Material {
+    return applyMaterialEffect(this.createMaterial(materialDef), animationType)
   }
 }
 
 // Predefined premium material presets
 export const PREMIUM_MATERIALS = {
   // Metals
-  GOLD_24K: { 
-    type: 'metal', 
-    name: '24K Pure Gold', 
-    color: '#FFD700', 
-    metallic: 1.0, 
-    roughness: 0.05 
-  },
-  WHITE_GOLD: { 
-    type: 'metal', 
-    name: 'White Gold', 
-    color: '#F8F8FF', 
-    metallic: 1.0, 
-    roughness: 0.08 
-  },
-  TITANIUM: { 
-    type: 'metal', 
-    name: 'Titanium', 
-    color: '#C0C0C0', 
-    metallic: 0.9, 
-    roughness: 0.2 
-  },
+  GOLD_24K: createDatabaseMaterial('gold-24k', { roughness: 0.05 }),
+  WHITE_GOLD: createDatabaseMaterial('white-gold-18k', { roughness: 0.08 }),
+  TITANIUM: createDatabaseMaterial('titanium', { metallic: 0.9, roughness: 0.2 }),
   
   // Gemstones
-  DIAMOND: { 
-    type: 'gemstone', 
-    name: 'Diamond', 
-    color: '#FFFFFF', 
-    roughness: 0.01, 
-    transparency: 0.95, 
-    refraction: 2.42 
-  },
-  EMERALD: { 
-    type: 'gemstone', 
-    name: 'Emerald', 
-    color: '#50C878', 
-    roughness: 0.03, 
-    transparency: 0.8, 
-    refraction: 1.58 
-  },
-  RUBY: { 
-    type: 'gemstone', 
-    name: 'Ruby', 
-    color: '#E0115F', 
-    roughness: 0.02, 
-    transparency: 0.7, 
-    refraction: 1.77 
-  },
+  DIAMOND: createDatabaseMaterial('diamond'),
+  EMERALD: createDatabaseMaterial('emerald', { roughness: 0.03 }),
+  RUBY: createDatabaseMaterial('ruby', { roughness: 0.02 }),
   
   // Pearls
   TAHITIAN_PEARL: { 
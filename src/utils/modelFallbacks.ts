@@ -1,8 +1,21 @@
 import * as THREE from 'three'
+import { createChainImpostor, createChainLinks, createPathInstances, type ChainLinkOptions, type PathInstance } from './chainStyles'
+import { createGemCutGeometry, createGemGeometry } from './gemCuts'
+import { setDetailLevels } from './levelOfDetail'
+import type { ModelAsset } from './modelLoader'
+import type { Charm } from '../types'
 
-// Create fallback geometries that match the expected GLTF structure
-export const createFallbackCharm = (type: 'pendant' | 'bead' | 'gemstone' | 'ornament') => {
+// Create fallback geometries that match the expected GLTF structure. A
+// charm with a gem specification gets its cut stone, sized by carat at the
+// given density (g/cm³), whatever its type.
+export const createFallbackCharm = (type: Charm['type'], gem?: Charm['gem'], density: number = 3.5) => {
   const group = new THREE.Group()
+
+  if (gem) {
+    group.add(setDetailLevels(new THREE.Mesh(createGemGeometry(gem, density)), [0]))
+    group.add(setDetailLevels(new THREE.Mesh(createGemGeometry(gem, density, 'simple')), [1]))
+    return group
+  }
   
   switch (type) {
     case 'pendant':
@@ -41,10 +54,9 @@ export const createFallbackCharm = (type: 'pendant' | 'bead' | 'gemstone' | 'orn
       break
       
     case 'gemstone':
-      // Octahedral crystal shape
-      const crystalGeometry = new THREE.OctahedronGeometry(0.25, 0)
-      const crystalMesh = new THREE.Mesh(crystalGeometry)
-      group.add(crystalMesh)
+      // Round brilliant up close, with fewer facets from further away
+      group.add(setDetailLevels(new THREE.Mesh(createGemCutGeometry('round-brilliant').scale(0.5, 0.5, 0.5)), [0]))
+      group.add(setDetailLevels(new THREE.Mesh(createGemCutGeometry('round-brilliant', {}, 'simple').scale(0.5, 0.5, 0.5)), [1]))
       break
       
     case 'ornament':
@@ -58,85 +70,131 @@ export const createFallbackCharm = (type: 'pendant' | 'bead' | 'gemstone' | 'orn
   return group
 }
 
-export const createFallbackNecklace = (type: 'chain' | 'cord' | 'beaded' | 'wire', length: number = 8) => {
-  const group = new THREE.Group()
+// Flat resting loop used when no simulated path is available
+export const createFlatNecklacePath = (length: number = 8, height: number = -0.5) => {
   const radius = length / (2 * Math.PI)
+  const points = Array.from({ length: 64 }, (_, i) => {
+    const angle = (i / 64) * Math.PI * 2
+    return new THREE.Vector3(Math.cos(angle) * radius, height, Math.sin(angle) * radius)
+  })
+  return new THREE.CatmullRomCurve3(points, true, 'centripetal')
+}
+
+export interface FallbackNecklaceOptions extends ChainLinkOptions {
+  path?: THREE.Curve<THREE.Vector3>
+}
+
+export const createFallbackNecklace = (
+  type: 'chain' | 'cord' | 'beaded' | 'wire',
+  length: number = 8,
+  options: FallbackNecklaceOptions = {}
+) => {
+  const { path = createFlatNecklacePath(length), ...chainOptions } = options
+  const group = new THREE.Group()
   
   switch (type) {
-    case 'chain':
-      // Create chain links
-      const numLinks = Math.floor(length * 8)
-      for (let i = 0; i < numLinks; i++) {
-        const angle = (i / numLinks) * Math.PI * 2
-        const x = Math.cos(angle) * radius
-        const z = Math.sin(angle) * radius
-        const y = -0.5
-        
-        const linkGeometry = new THREE.TorusGeometry(0.04, 0.015, 6, 12)
-        const linkMesh = new THREE.Mesh(linkGeometry)
-        linkMesh.position.set(x, y, z)
-        linkMesh.rotation.y = angle
-        linkMesh.rotation.z = Math.PI / 2
-        group.add(linkMesh)
-      }
+    case 'chain': {
+      // Create chain links in the requested style, then simpler links and
+      // a plain tube for viewing from further away (CHAIN_LOD_DISTANCES)
+      createChainLinks(length, chainOptions).forEach((link) => group.add(setDetailLevels(link, [0])))
+      createChainLinks(length, chainOptions, 'simple').forEach((link) => group.add(setDetailLevels(link, [1])))
+      group.add(setDetailLevels(createChainImpostor(chainOptions), [2]))
       break
+    }
       
-    case 'cord':
+    case 'cord': {
       // Smooth cord
-      const cordCurve = new THREE.EllipseCurve(0, 0, radius, radius, 0, 2 * Math.PI, false, 0)
-      const cordPoints = cordCurve.getPoints(64)
-      const cordGeometry = new THREE.BufferGeometry().setFromPoints(
-        cordPoints.map(p => new THREE.Vector3(p.x, -0.5, p.y))
-      )
       const cordMaterial = new THREE.LineBasicMaterial({ color: 0x8B4513 })
-      const cordLine = new THREE.Line(cordGeometry, cordMaterial)
+      const cordLine = new THREE.Line(new THREE.BufferGeometry(), cordMaterial)
+      cordLine.userData.pathSamples = 64
       group.add(cordLine)
       
       // Add thickness with tube geometry
-      const cordShape = new THREE.CatmullRomCurve3(
-        cordPoints.map(p => new THREE.Vector3(p.x, -0.5, p.y))
-      )
-      cordShape.closed = true
-      const tubeGeometry = new THREE.TubeGeometry(cordShape, 64, 0.02, 8, true)
-      const tubeMesh = new THREE.Mesh(tubeGeometry)
+      const tubeMesh = new THREE.Mesh()
+      tubeMesh.userData.tube = { segments: 64, radius: 0.02, radialSegments: 8 }
       group.add(tubeMesh)
       break
+    }
       
-    case 'beaded':
+    case 'beaded': {
       // Beaded necklace
       const numBeads = Math.floor(length * 6)
-      for (let i = 0; i < numBeads; i++) {
-        const angle = (i / numBeads) * Math.PI * 2
-        const x = Math.cos(angle) * radius
-        const z = Math.sin(angle) * radius
-        const y = -0.5
-        
-        const beadGeometry = new THREE.SphereGeometry(0.03, 8, 6)
-        const beadMesh = new THREE.Mesh(beadGeometry)
-        beadMesh.position.set(x, y, z)
-        group.add(beadMesh)
-      }
+      const beads = Array.from({ length: numBeads }, (_, i) => ({ pathParameter: i / numBeads }))
+      group.add(createPathInstances(new THREE.SphereGeometry(0.03, 8, 6), beads))
       break
+    }
       
-    case 'wire':
+    case 'wire': {
       // Thin wire
-      const wireShape = new THREE.EllipseCurve(0, 0, radius, radius, 0, 2 * Math.PI, false, 0)
-      const wirePoints = wireShape.getPoints(128)
-      const wireCurve = new THREE.CatmullRomCurve3(
-        wirePoints.map(p => new THREE.Vector3(p.x, -0.5, p.y))
-      )
-      wireCurve.closed = true
-      const wireGeometry = new THREE.TubeGeometry(wireCurve, 128, 0.005, 4, true)
-      const wireMesh = new THREE.Mesh(wireGeometry)
+      const wireMesh = new THREE.Mesh()
+      wireMesh.userData.tube = { segments: 128, radius: 0.005, radialSegments: 4 }
       group.add(wireMesh)
       break
+    }
   }
   
+  layoutFallbackNecklace(group.children, path)
   return group
 }
 
+// Scratch objects for layout, which runs every simulation frame
+const tangent = new THREE.Vector3()
+const normal = new THREE.Vector3()
+const binormal = new THREE.Vector3()
+const basis = new THREE.Matrix4()
+const roll = new THREE.Quaternion()
+const linkAxis = new THREE.Vector3(1, 0, 0)
+const instancePosition = new THREE.Vector3()
+const instanceQuaternion = new THREE.Quaternion()
+const instanceScale = new THREE.Vector3(1, 1, 1)
+const instanceMatrix = new THREE.Matrix4()
+
+/**
+ * Move fallback necklace parts onto a (possibly simulated) path. Discrete
+ * parts and instanced parts follow their path parameters and roll; tubes
+ * and lines are rebuilt.
+ */
+export const layoutFallbackNecklace = (parts: THREE.Object3D[], path: THREE.Curve<THREE.Vector3>) => {
+  // Frames transported along the path keep link roll consistent from link to link
+  const frameSamples = 200
+  const frames = path.computeFrenetFrames(frameSamples, true)
+
+  const placeOnPath = ({ pathParameter, roll: angle = 0 }: PathInstance, position: THREE.Vector3, quaternion: THREE.Quaternion) => {
+    path.getPointAt(pathParameter, position)
+    path.getTangentAt(pathParameter, tangent)
+    normal.copy(frames.normals[Math.round(pathParameter * frameSamples) % frameSamples])
+    normal.addScaledVector(tangent, -normal.dot(tangent)).normalize()
+    binormal.crossVectors(tangent, normal)
+    quaternion.setFromRotationMatrix(basis.makeBasis(tangent, normal, binormal))
+    quaternion.multiply(roll.setFromAxisAngle(linkAxis, angle))
+  }
+
+  parts.forEach((part) => {
+    const { pathParameter, instances, tube, pathSamples } = part.userData
+
+    if (instances && part instanceof THREE.InstancedMesh) {
+      (instances as PathInstance[]).forEach((instance, index) => {
+        placeOnPath(instance, instancePosition, instanceQuaternion)
+        part.setMatrixAt(index, instanceMatrix.compose(instancePosition, instanceQuaternion, instanceScale))
+      })
+      part.instanceMatrix.needsUpdate = true
+      // Recomputed when next needed for culling or picking
+      part.boundingSphere = null
+      part.boundingBox = null
+    } else if (pathParameter !== undefined) {
+      placeOnPath(part.userData as PathInstance, part.position, part.quaternion)
+    } else if (tube && part instanceof THREE.Mesh) {
+      part.geometry.dispose()
+      part.geometry = new THREE.TubeGeometry(path, tube.segments, tube.radius, tube.radialSegments, true)
+    } else if (pathSamples && part instanceof THREE.Line) {
+      part.geometry.dispose()
+      part.geometry = new THREE.BufferGeometry().setFromPoints(path.getSpacedPoints(pathSamples))
+    }
+  })
+}
+
 // Convert our fallback geometry to a GLTF-like structure
-export const createFallbackGLTF = (scene: THREE.Group) => {
+export const createFallbackGLTF = (scene: THREE.Group): ModelAsset => {
   return {
     scene: scene,
     scenes: [scene],
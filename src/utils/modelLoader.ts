@@ -0,0 +1,248 @@
+import * as THREE from 'three'
+import { GLTFLoader, type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js'
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js'
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js'
+
+// What the viewer needs from a glTF; fallbacks have the same shape
+export type ModelAsset = Pick<GLTF, 'scene' | 'scenes' | 'animations' | 'cameras' | 'asset'> & {
+  userData: Record<string, unknown>
+}
+
+export type ModelLoadStatus = 'loading' | 'loaded' | 'error'
+
+// Compression a model file used, and what its textures became on this device
+export interface ModelCodecs {
+  geometry: Array<'draco' | 'meshopt'>
+  textures: Array<'ktx2' | 'webp' | 'avif'>
+  gpuTextureFormats: string[] // KTX2 transcode targets, e.g. 'ASTC', 'BC7'; 'RGBA' when the GPU supports none
+}
+
+export interface ModelLoadResult {
+  model: ModelAsset
+  codecs: ModelCodecs
+}
+
+// One model file, as the loader currently sees it
+export interface ModelLoadEntry {
+  url: string
+  status: ModelLoadStatus
+  progress: number // 0–1; stays at 0 while the size is unknown
+  attempt: number // 1 on the first try
+  model: ModelAsset | null
+  codecs: ModelCodecs | null
+  error: string | null
+}
+
+export interface ModelLoadOptions {
+  retries?: number // Further attempts after the first, for failures that may be temporary
+  retryDelay?: number // Milliseconds before the first retry; doubles each time
+}
+
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY = 500
+
+export class ModelLoadError extends Error {
+  readonly url: string
+  readonly retryable: boolean
+
+  constructor(url: string, message: string, retryable: boolean) {
+    super(`Failed to load model ${url}: ${message}`)
+    this.name = 'ModelLoadError'
+    this.url = url
+    this.retryable = retryable
+  }
+}
+
+/**
+ * URL to load a catalog model path from, or null when there's nothing to
+ * load. Root-relative paths are served from the app's base URL, like the
+ * catalog itself.
+ */
+export const getModelUrl = (modelPath: string | undefined): string | null => {
+  if (!modelPath) return null
+  if (modelPath.startsWith('/') && !modelPath.startsWith('//')) {
+    return `${import.meta.env.BASE_URL}${modelPath.slice(1)}`
+  }
+  return modelPath
+}
+
+// A model needs something to show
+export const validateModel = (gltf: ModelAsset): boolean => {
+  return Boolean(gltf.scene && gltf.scene.children.length > 0)
+}
+
+// Decoders are served with the app rather than from a CDN
+export const DRACO_DECODER_PATH = `${import.meta.env.BASE_URL}decoders/draco/`
+export const BASIS_TRANSCODER_PATH = `${import.meta.env.BASE_URL}decoders/basis/`
+
+const dracoLoader = new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH)
+const ktx2Loader = new KTX2Loader().setTranscoderPath(BASIS_TRANSCODER_PATH)
+const gltfLoader = new GLTFLoader()
+  .setDRACOLoader(dracoLoader)
+  .setMeshoptDecoder(MeshoptDecoder)
+
+// KTX2 textures are transcoded to the best format the GPU supports, so
+// loading waits until the renderer is known
+let setRendererReady: () => void
+const rendererReady = new Promise<void>((resolve) => {
+  setRendererReady = resolve
+})
+
+/**
+ * Let the loader check the renderer's compressed texture support. Call once
+ * the renderer exists; model loads wait for it.
+ */
+export const configureModelLoader = (renderer: THREE.WebGLRenderer) => {
+  ktx2Loader.detectSupport(renderer)
+  gltfLoader.setKTX2Loader(ktx2Loader)
+  setRendererReady()
+}
+
+const GEOMETRY_CODECS: Record<string, ModelCodecs['geometry'][number]> = {
+  KHR_draco_mesh_compression: 'draco',
+  EXT_meshopt_compression: 'meshopt',
+  KHR_meshopt_compression: 'meshopt',
+}
+
+const TEXTURE_CODECS: Record<string, ModelCodecs['textures'][number]> = {
+  KHR_texture_basisu: 'ktx2',
+  EXT_texture_webp: 'webp',
+  EXT_texture_avif: 'avif',
+}
+
+const GPU_TEXTURE_FORMATS: Partial<Record<THREE.AnyPixelFormat | THREE.CompressedPixelFormat, string>> = {
+  [THREE.RGBA_ASTC_4x4_Format]: 'ASTC',
+  [THREE.RGBA_BPTC_Format]: 'BC7',
+  [THREE.RGB_BPTC_UNSIGNED_Format]: 'BC6H',
+  [THREE.RGBA_S3TC_DXT1_Format]: 'BC1',
+  [THREE.RGBA_S3TC_DXT5_Format]: 'BC3',
+  [THREE.RGB_ETC2_Format]: 'ETC2',
+  [THREE.RGBA_ETC2_EAC_Format]: 'ETC2',
+  [THREE.RGB_ETC1_Format]: 'ETC1',
+  [THREE.RGB_PVRTC_4BPPV1_Format]: 'PVRTC',
+  [THREE.RGBA_PVRTC_4BPPV1_Format]: 'PVRTC',
+  [THREE.RGBAFormat]: 'RGBA',
+}
+
+const unique = <T>(values: T[]) => [...new Set(values)]
+
+// What the file declared, and what its KTX2 textures were transcoded to
+export const getModelCodecs = (gltf: GLTF): ModelCodecs => {
+  const extensions: string[] = gltf.parser.json.extensionsUsed ?? []
+
+  const gpuTextureFormats: string[] = []
+  gltf.scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material]
+    materials.forEach((material) => {
+      Object.values(material).forEach((value) => {
+        if (value instanceof THREE.CompressedTexture) {
+          gpuTextureFormats.push(GPU_TEXTURE_FORMATS[value.format] ?? `format ${value.format}`)
+        }
+      })
+    })
+  })
+
+  return {
+    geometry: unique(extensions.flatMap((name) => GEOMETRY_CODECS[name] ?? [])),
+    textures: unique(extensions.flatMap((name) => TEXTURE_CODECS[name] ?? [])),
+    gpuTextureFormats: unique(gpuTextureFormats),
+  }
+}
+
+// Network failures and server trouble may pass; missing and malformed files won't
+const toModelLoadError = (url: string, error: unknown): ModelLoadError => {
+  if (error instanceof ModelLoadError) return error
+  const status = (error as { response?: Response }).response?.status
+  if (status !== undefined) {
+    return new ModelLoadError(url, `HTTP ${status}`, status === 408 || status === 429 || status >= 500)
+  }
+  // fetch rejects with a TypeError when the request never completes
+  const message = error instanceof Error ? error.message : String(error)
+  return new ModelLoadError(url, message, error instanceof TypeError)
+}
+
+const wait = (milliseconds: number) => new Promise<void>((resolve) => setTimeout(resolve, milliseconds))
+
+/**
+ * Load a glTF/GLB, decoding Draco and Meshopt geometry and KTX2 textures,
+ * and retrying temporary failures with exponential backoff. Rejects with a
+ * ModelLoadError.
+ */
+export const loadModel = async (
+  url: string,
+  { retries = DEFAULT_RETRIES, retryDelay = DEFAULT_RETRY_DELAY }: ModelLoadOptions = {},
+  onProgress?: (progress: number, attempt: number) => void
+): Promise<ModelLoadResult> => {
+  await rendererReady
+  for (let attempt = 1; ; attempt++) {
+    onProgress?.(0, attempt)
+    try {
+      const gltf = await gltfLoader.loadAsync(url, (event) => {
+        if (event.lengthComputable && event.total > 0) onProgress?.(event.loaded / event.total, attempt)
+      })
+      if (!validateModel(gltf)) throw new ModelLoadError(url, 'the file has no scene to show', false)
+      return { model: gltf, codecs: getModelCodecs(gltf) }
+    } catch (error) {
+      const loadError = toModelLoadError(url, error)
+      if (!loadError.retryable || attempt > retries) throw loadError
+      await wait(retryDelay * 2 ** (attempt - 1))
+    }
+  }
+}
+
+// Shared cache: each URL loads once however many components show it
+
+const entries = new Map<string, ModelLoadEntry>()
+const listeners = new Set<() => void>()
+let snapshot: ModelLoadEntry[] = []
+
+const setEntry = (url: string, changes: Partial<ModelLoadEntry>) => {
+  const entry = entries.get(url)
+  if (!entry) return
+  entries.set(url, { ...entry, ...changes })
+  snapshot = [...entries.values()]
+  listeners.forEach((listener) => listener())
+}
+
+const startLoad = (url: string, options?: ModelLoadOptions) => {
+  entries.set(url, { url, status: 'loading', progress: 0, attempt: 1, model: null, codecs: null, error: null })
+  snapshot = [...entries.values()]
+  listeners.forEach((listener) => listener())
+
+  loadModel(url, options, (progress, attempt) => setEntry(url, { progress, attempt }))
+    .then(({ model, codecs }) => setEntry(url, { status: 'loaded', progress: 1, model, codecs }))
+    .catch((error: ModelLoadError) => {
+      console.warn(error.message)
+      setEntry(url, { status: 'error', error: error.message })
+    })
+}
+
+// Start loading a model unless it's already loading or loaded
+export const requestModel = (url: string, options?: ModelLoadOptions) => {
+  if (!entries.has(url)) startLoad(url, options)
+}
+
+// Try a failed model again from scratch
+export const retryModel = (url: string, options?: ModelLoadOptions) => {
+  if (entries.get(url)?.status === 'error') startLoad(url, options)
+}
+
+export const retryFailedModels = () => {
+  entries.forEach((entry) => {
+    if (entry.status === 'error') startLoad(entry.url)
+  })
+}
+
+export const getModelEntry = (url: string): ModelLoadEntry | undefined => entries.get(url)
+
+// Every model requested so far, in request order; a new array whenever one changes
+export const getModelEntries = (): ModelLoadEntry[] => snapshot
+
+export const subscribeToModels = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,200 @@
+import * as THREE from 'three'
+import type { AttachmentPoint } from '../types'
+
+// Placement of attachment points along a closed necklace path. Paths are
+// parameterised by arc length (0-1) and run counter-clockwise seen from
+// above, like the procedural loop and the chain simulation.
+export interface PathFrames {
+  tangents: THREE.Vector3[]
+  normals: THREE.Vector3[]
+}
+
+export interface PathFrame {
+  position: THREE.Vector3
+  tangent: THREE.Vector3
+  normal: THREE.Vector3
+  binormal: THREE.Vector3
+  quaternion: THREE.Quaternion
+}
+
+export const WORLD_UP = new THREE.Vector3(0, 1, 0)
+
+const wrap = (u: number) => ((u % 1) + 1) % 1
+
+/**
+ * Parallel-transport frames around a closed path. The first normal is
+ * seeded from the reference direction; the twist left over after going
+ * once around is spread evenly so the frames meet up at the clasp.
+ */
+export const createPathFrames = (
+  path: THREE.Curve<THREE.Vector3>,
+  samples: number = 200,
+  reference: THREE.Vector3 = WORLD_UP
+): PathFrames => {
+  const tangents = Array.from({ length: samples + 1 }, (_, i) => path.getTangentAt(i / samples).normalize())
+  const normals: THREE.Vector3[] = []
+
+  const seed = reference.clone().addScaledVector(tangents[0], -reference.dot(tangents[0]))
+  if (seed.lengthSq() < 1e-8) {
+    // Reference runs along the path; any perpendicular will do
+    seed.set(1, 0, 0).addScaledVector(tangents[0], -tangents[0].x)
+  }
+  normals.push(seed.normalize())
+
+  const axis = new THREE.Vector3()
+  const rotation = new THREE.Quaternion()
+  for (let i = 1; i <= samples; i++) {
+    const normal = normals[i - 1].clone()
+    axis.crossVectors(tangents[i - 1], tangents[i])
+    const sin = axis.length()
+    if (sin > 1e-8) {
+      const angle = Math.atan2(sin, tangents[i - 1].dot(tangents[i]))
+      normal.applyQuaternion(rotation.setFromAxisAngle(axis.divideScalar(sin), angle))
+    }
+    normal.addScaledVector(tangents[i], -normal.dot(tangents[i])).normalize()
+    normals.push(normal)
+  }
+
+  // Close the loop: measure the twist between the transported end and the start
+  const end = normals[samples]
+  const cross = new THREE.Vector3().crossVectors(end, normals[0])
+  let twist = Math.acos(THREE.MathUtils.clamp(end.dot(normals[0]), -1, 1))
+  if (cross.dot(tangents[0]) < 0) twist = -twist
+
+  for (let i = 1; i <= samples; i++) {
+    normals[i].applyQuaternion(rotation.setFromAxisAngle(tangents[i], (twist * i) / samples))
+  }
+
+  return { tangents, normals }
+}
+
+/**
+ * Orientation frame at a path parameter. Charm axes: +Y along the frame
+ * normal, +Z facing away from the loop, +X against the path direction.
+ * When `hang` is given the frame is rolled about the tangent so the normal
+ * points that way (pendants hang perpendicular to the chain under gravity);
+ * the transported normal is only used where the chain runs parallel to it.
+ */
+export const getPathFrame = (
+  path: THREE.Curve<THREE.Vector3>,
+  pathParameter: number,
+  frames: PathFrames,
+  hang: THREE.Vector3 | null = WORLD_UP
+): PathFrame => {
+  const u = wrap(pathParameter)
+  const samples = frames.normals.length - 1
+  const position = path.getPointAt(u)
+  const tangent = path.getTangentAt(u).normalize()
+
+  const normal = new THREE.Vector3()
+  if (hang) {
+    normal.copy(hang).addScaledVector(tangent, -hang.dot(tangent))
+  }
+  if (normal.lengthSq() < 0.01) {
+    normal.copy(frames.normals[Math.round(u * samples)])
+  }
+  normal.addScaledVector(tangent, -normal.dot(tangent)).normalize()
+
+  const binormal = new THREE.Vector3().crossVectors(normal, tangent)
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(tangent.clone().negate(), normal, binormal)
+  )
+
+  return { position, tangent, normal, binormal, quaternion }
+}
+
+/**
+ * Arc-length parameter of the point on the path closest to a position
+ */
+export const findNearestPathParameter = (
+  path: THREE.Curve<THREE.Vector3>,
+  position: THREE.Vector3,
+  samples: number = 256
+): number => {
+  const point = new THREE.Vector3()
+  const distanceAt = (u: number) => path.getPointAt(wrap(u), point).distanceToSquared(position)
+
+  let best = 0
+  let bestDistance = Infinity
+  for (let i = 0; i < samples; i++) {
+    const distance = distanceAt(i / samples)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = i / samples
+    }
+  }
+
+  // Refine between the neighbouring samples
+  let step = 1 / samples
+  for (let i = 0; i < 16; i++) {
+    step /= 2
+    const before = distanceAt(best - step)
+    const after = distanceAt(best + step)
+    if (before < bestDistance && before <= after) {
+      best -= step
+      bestDistance = before
+    } else if (after < bestDistance) {
+      best += step
+      bestDistance = after
+    }
+  }
+
+  return wrap(best)
+}
+
+/**
+ * Path parameter for each attachment point: its explicit pathParameter, or
+ * its authored position snapped onto the rest path
+ */
+export const resolveAttachmentParameters = (
+  attachmentPoints: AttachmentPoint[],
+  restPath: THREE.Curve<THREE.Vector3>
+): Record<string, number> => {
+  return Object.fromEntries(
+    attachmentPoints.map((point) => [
+      point.id,
+      point.pathParameter !== undefined
+        ? wrap(point.pathParameter)
+        : findNearestPathParameter(restPath, new THREE.Vector3(...point.position)),
+    ])
+  )
+}
+
+/**
+ * Approximate the centreline of a loaded necklace model by averaging its
+ * vertices in slices around the vertical axis through its centre
+ */
+export const extractNecklacePath = (object: THREE.Object3D, slices: number = 64): THREE.CatmullRomCurve3 | null => {
+  object.updateWorldMatrix(true, true)
+  const inverseRoot = object.matrixWorld.clone().invert()
+  const vertices: THREE.Vector3[] = []
+
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    const positions = child.geometry.getAttribute('position')
+    if (!positions) return
+    const toRoot = new THREE.Matrix4().multiplyMatrices(inverseRoot, child.matrixWorld)
+    const step = Math.max(1, Math.floor(positions.count / 20000))
+    for (let i = 0; i < positions.count; i += step) {
+      vertices.push(new THREE.Vector3().fromBufferAttribute(positions, i).applyMatrix4(toRoot))
+    }
+  })
+
+  if (vertices.length === 0) return null
+
+  const centre = new THREE.Box3().setFromPoints(vertices).getCenter(new THREE.Vector3())
+  const sums = Array.from({ length: slices }, () => ({ point: new THREE.Vector3(), count: 0 }))
+  vertices.forEach((vertex) => {
+    const angle = wrap(Math.atan2(vertex.z - centre.z, vertex.x - centre.x) / (Math.PI * 2))
+    const slice = sums[Math.floor(angle * slices) % slices]
+    slice.point.add(vertex)
+    slice.count++
+  })
+
+  const points = sums.filter((slice) => slice.count > 0).map((slice) => slice.point.divideScalar(slice.count))
+  if (points.length < 4) return null
+
+  // Scale to the model's own root transform
+  points.forEach((point) => point.applyMatrix4(object.matrix))
+  return new THREE.CatmullRomCurve3(points, true, 'centripetal')
+}
@@ -0,0 +1,459 @@
+import * as THREE from 'three'
+import type { Necklace, NecklaceBase } from '../types'
+
+// Verlet chain simulation for necklace bases
+export interface ChainParticle {
+  position: THREE.Vector3
+  previous: THREE.Vector3
+  mass: number
+  invMass: number // 0 for pinned particles
+  load: number // Extra mass hung from this particle (charms)
+  pathParameter: number // Position along the loop at rest (0-1)
+}
+
+export interface ChainConstraint {
+  a: number
+  b: number
+  restLength: number
+  stiffness: number // 0-1, fraction of the error corrected per iteration
+  kind: 'structural' | 'bending'
+}
+
+export interface ChainSimulationOptions {
+  length: number
+  physics: NecklaceBase['physics']
+  height?: number // Rest height of the loop
+  gravity?: THREE.Vector3Tuple
+  iterations?: number
+  linearDensity?: number // Grams of bare chain per unit of length, like Charm.weight
+  pinnedRange?: [number, number] | null // Path parameter range held in place (the nape of the neck)
+  colliders?: ChainCollider[]
+  particleRadius?: number // Half the chain thickness, kept clear of colliders
+  friction?: number // Coulomb friction coefficient against colliders
+}
+
+// Solid shapes the chain can rest on
+export interface ChainCollider {
+  /**
+   * Push a sphere of the given radius out of the shape. Writes the outward
+   * contact normal and returns the penetration depth (0 when not touching).
+   */
+  resolve(point: THREE.Vector3, radius: number, normal: THREE.Vector3): number
+}
+
+/**
+ * Infinite floor or wall; the chain stays on the side the normal points to
+ */
+export class PlaneCollider implements ChainCollider {
+  readonly plane: THREE.Plane
+
+  constructor(point: THREE.Vector3Tuple, normal: THREE.Vector3Tuple = [0, 1, 0]) {
+    this.plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      new THREE.Vector3(...normal).normalize(),
+      new THREE.Vector3(...point)
+    )
+  }
+
+  resolve(point: THREE.Vector3, radius: number, normal: THREE.Vector3): number {
+    const depth = radius - this.plane.distanceToPoint(point)
+    if (depth <= 0) return 0
+    normal.copy(this.plane.normal)
+    point.addScaledVector(normal, depth)
+    return depth
+  }
+}
+
+export interface LatheColliderOptions {
+  depthScale?: number // Scale of the z axis, for oval cross-sections
+  position?: THREE.Vector3Tuple
+  rotation?: THREE.Vector3Tuple
+}
+
+/**
+ * Surface of revolution around the local y axis, described by the same
+ * (radius, height) profile that THREE.LatheGeometry takes
+ */
+export class LatheCollider implements ChainCollider {
+  readonly matrix: THREE.Matrix4
+  readonly profile: THREE.Vector2[]
+  private inverse: THREE.Matrix4
+  // Profile closed along the axis, as a 2D polygon in (radius, height)
+  private polygon: THREE.Vector2[]
+
+  constructor(profile: THREE.Vector2[], options: LatheColliderOptions = {}) {
+    const { depthScale = 1, position = [0, 0, 0], rotation = [0, 0, 0] } = options
+
+    this.profile = profile
+    this.matrix = new THREE.Matrix4().compose(
+      new THREE.Vector3(...position),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+      new THREE.Vector3(1, 1, depthScale)
+    )
+    this.inverse = this.matrix.clone().invert()
+
+    const first = profile[0]
+    const last = profile[profile.length - 1]
+    this.polygon = [new THREE.Vector2(0, first.y), ...profile, new THREE.Vector2(0, last.y)]
+  }
+
+  private contains(q: THREE.Vector2): boolean {
+    let inside = false
+    for (let i = 0, j = this.polygon.length - 1; i < this.polygon.length; j = i++) {
+      const a = this.polygon[i]
+      const b = this.polygon[j]
+      if ((a.y > q.y) !== (b.y > q.y) && q.x < ((b.x - a.x) * (q.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside
+      }
+    }
+    return inside
+  }
+
+  resolve(point: THREE.Vector3, radius: number, normal: THREE.Vector3): number {
+    // Work in the unscaled local frame, then in the 2D profile plane
+    const local = point.clone().applyMatrix4(this.inverse)
+    const rho = Math.hypot(local.x, local.z)
+    const q = new THREE.Vector2(rho, local.y)
+
+    const closest = new THREE.Vector2()
+    const candidate = new THREE.Vector2()
+    const segment = new THREE.Vector2()
+    let closestDistance = Infinity
+
+    for (let i = 0; i < this.profile.length - 1; i++) {
+      const a = this.profile[i]
+      segment.subVectors(this.profile[i + 1], a)
+      const lengthSq = segment.lengthSq()
+      const t = lengthSq > 0 ? THREE.MathUtils.clamp(candidate.subVectors(q, a).dot(segment) / lengthSq, 0, 1) : 0
+      candidate.copy(a).addScaledVector(segment, t)
+      const distance = candidate.distanceTo(q)
+      if (distance < closestDistance) {
+        closestDistance = distance
+        closest.copy(candidate)
+      }
+    }
+
+    const inside = this.contains(q)
+    if (!inside && closestDistance >= radius) return 0
+
+    const outward = inside ? closest.clone().sub(q) : q.clone().sub(closest)
+    if (outward.lengthSq() < 1e-12) outward.set(1, 0)
+    outward.normalize()
+    const target = closest.clone().addScaledVector(outward, radius)
+
+    // Back to 3D: keep the azimuth, move along the profile plane
+    const azimuthX = rho > 1e-9 ? local.x / rho : 0
+    const azimuthZ = rho > 1e-9 ? local.z / rho : 1
+    const resolved = new THREE.Vector3(azimuthX * target.x, target.y, azimuthZ * target.x).applyMatrix4(this.matrix)
+
+    normal.subVectors(resolved, point)
+    const depth = normal.length()
+    if (depth < 1e-12) return 0
+    normal.divideScalar(depth)
+    point.copy(resolved)
+    return depth
+  }
+}
+
+export const CHAIN_PHYSICS_DEFAULTS = {
+  height: -0.5,
+  gravity: [0, -9.81, 0] as THREE.Vector3Tuple,
+  iterations: 12,
+  linearDensity: 3, // Roughly an 18K gold cable chain
+  pinnedRange: [0.5, 1] as [number, number],
+  timeStep: 1 / 60,
+  maxSubSteps: 4,
+  sleepThreshold: 1e-7,
+  sleepFrames: 30,
+  particleRadius: 0.03,
+  friction: 0.6,
+}
+
+// Inclusive range test on the closed loop, so [0.5, 1] also covers u = 0
+const isInRange = (u: number, [start, end]: [number, number]) =>
+  (u >= start && u <= end) || (u + 1 >= start && u + 1 <= end)
+
+export class ChainSimulation {
+  readonly particles: ChainParticle[] = []
+  readonly constraints: ChainConstraint[] = []
+  readonly segmentLength: number
+
+  /** Incremented whenever particle positions change, so renderers can skip idle frames */
+  version = 0
+  sleeping = false
+
+  private gravity: THREE.Vector3
+  private iterations: number
+  private damping: number
+  private colliders: ChainCollider[]
+  private particleRadius: number
+  private friction: number
+  private accumulator = 0
+  private quietFrames = 0
+  private curve: THREE.CatmullRomCurve3 | null = null
+  private curveVersion = -1
+
+  constructor(options: ChainSimulationOptions) {
+    const {
+      length,
+      physics,
+      height = CHAIN_PHYSICS_DEFAULTS.height,
+      gravity = CHAIN_PHYSICS_DEFAULTS.gravity,
+      iterations = CHAIN_PHYSICS_DEFAULTS.iterations,
+      linearDensity = CHAIN_PHYSICS_DEFAULTS.linearDensity,
+      pinnedRange = CHAIN_PHYSICS_DEFAULTS.pinnedRange,
+      colliders = [],
+      particleRadius = CHAIN_PHYSICS_DEFAULTS.particleRadius,
+      friction = CHAIN_PHYSICS_DEFAULTS.friction,
+    } = options
+
+    const segments = Math.max(3, Math.floor(physics.segments))
+    const radius = length / (2 * Math.PI)
+    const particleMass = linearDensity * (length / segments)
+
+    this.segmentLength = length / segments
+    this.gravity = new THREE.Vector3(...gravity)
+    this.iterations = iterations
+    this.damping = THREE.MathUtils.clamp(physics.damping, 0, 1)
+    this.colliders = colliders
+    this.particleRadius = particleRadius
+    this.friction = friction
+
+    // Lay the particles out on the same flat loop the fallback geometry uses
+    for (let i = 0; i < segments; i++) {
+      const u = i / segments
+      const angle = u * Math.PI * 2
+      const position = new THREE.Vector3(Math.cos(angle) * radius, height, Math.sin(angle) * radius)
+      const pinned = pinnedRange !== null && isInRange(u, pinnedRange)
+
+      this.particles.push({
+        position,
+        previous: position.clone(),
+        mass: particleMass,
+        invMass: pinned ? 0 : 1 / particleMass,
+        load: 0,
+        pathParameter: u,
+      })
+    }
+
+    // Links are inextensible; stiffness only resists bending
+    const bendStiffness = THREE.MathUtils.clamp(physics.stiffness, 0, 1) * 0.1
+    for (let i = 0; i < segments; i++) {
+      this.addConstraint(i, (i + 1) % segments, 1, 'structural')
+      if (bendStiffness > 0) {
+        this.addConstraint(i, (i + 2) % segments, bendStiffness, 'bending')
+      }
+    }
+  }
+
+  private addConstraint(a: number, b: number, stiffness: number, kind: ChainConstraint['kind']) {
+    this.constraints.push({
+      a,
+      b,
+      restLength: this.particles[a].position.distanceTo(this.particles[b].position),
+      stiffness,
+      kind,
+    })
+  }
+
+  /**
+   * Index of the particle closest to a path parameter (0-1 around the loop)
+   */
+  getParticleIndex(pathParameter: number): number {
+    const count = this.particles.length
+    const wrapped = ((pathParameter % 1) + 1) % 1
+    return Math.round(wrapped * count) % count
+  }
+
+  /**
+   * Hang extra mass (e.g. a charm) from the particle nearest a path parameter
+   */
+  addMass(pathParameter: number, mass: number): void {
+    if (mass <= 0) return
+    const particle = this.particles[this.getParticleIndex(pathParameter)]
+    particle.mass += mass
+    particle.load += mass
+    if (particle.invMass > 0) {
+      particle.invMass = 1 / particle.mass
+    }
+    this.wake()
+  }
+
+  /**
+   * Interpolated world position at a path parameter (0-1 around the loop)
+   */
+  getPositionAt(pathParameter: number, target = new THREE.Vector3()): THREE.Vector3 {
+    const count = this.particles.length
+    const scaled = (((pathParameter % 1) + 1) % 1) * count
+    const i = Math.floor(scaled) % count
+    const t = scaled - Math.floor(scaled)
+    return target.lerpVectors(this.particles[i].position, this.particles[(i + 1) % count].position, t)
+  }
+
+  /**
+   * Smooth closed curve through the current particle positions
+   */
+  getCurve(): THREE.CatmullRomCurve3 {
+    if (!this.curve || this.curveVersion !== this.version) {
+      this.curve = new THREE.CatmullRomCurve3(
+        this.particles.map((particle) => particle.position.clone()),
+        true,
+        'centripetal'
+      )
+      this.curveVersion = this.version
+    }
+    return this.curve
+  }
+
+  wake(): void {
+    this.sleeping = false
+    this.quietFrames = 0
+  }
+
+  /**
+   * Advance the simulation by a frame delta using fixed sub-steps
+   */
+  update(delta: number): void {
+    if (this.sleeping) return
+
+    const { timeStep, maxSubSteps } = CHAIN_PHYSICS_DEFAULTS
+    this.accumulator = Math.min(this.accumulator + delta, timeStep * maxSubSteps)
+
+    let moved = 0
+    while (this.accumulator >= timeStep) {
+      moved = Math.max(moved, this.step(timeStep))
+      this.accumulator -= timeStep
+    }
+
+    if (moved > 0) {
+      this.version++
+    }
+
+    if (moved < CHAIN_PHYSICS_DEFAULTS.sleepThreshold) {
+      this.quietFrames++
+      if (this.quietFrames >= CHAIN_PHYSICS_DEFAULTS.sleepFrames) {
+        this.sleeping = true
+      }
+    } else {
+      this.quietFrames = 0
+    }
+  }
+
+  /**
+   * Run the simulation until it comes to rest (or the step budget runs out)
+   */
+  settle(maxSteps: number = 600): void {
+    this.wake()
+    for (let i = 0; i < maxSteps && !this.sleeping; i++) {
+      this.update(CHAIN_PHYSICS_DEFAULTS.timeStep)
+    }
+  }
+
+  /**
+   * Single Verlet integration step followed by constraint projection.
+   * Returns the largest squared displacement of any particle.
+   */
+  private step(dt: number): number {
+    const retain = Math.pow(1 - this.damping, dt)
+    const acceleration = this.gravity.clone().multiplyScalar(dt * dt)
+    const velocity = new THREE.Vector3()
+    let maxMove = 0
+
+    for (const particle of this.particles) {
+      if (particle.invMass === 0) continue
+      velocity.subVectors(particle.position, particle.previous).multiplyScalar(retain)
+      particle.previous.copy(particle.position)
+      particle.position.add(velocity).add(acceleration)
+    }
+
+    const delta = new THREE.Vector3()
+    const contactDepths = new Array<number>(this.particles.length).fill(0)
+    const contactNormals = this.particles.map(() => new THREE.Vector3())
+    for (let iteration = 0; iteration < this.iterations; iteration++) {
+      for (const constraint of this.constraints) {
+        const a = this.particles[constraint.a]
+        const b = this.particles[constraint.b]
+        const weight = a.invMass + b.invMass
+        if (weight === 0) continue
+
+        delta.subVectors(b.position, a.position)
+        const distance = delta.length()
+        if (distance < 1e-9) continue
+
+        const correction = ((distance - constraint.restLength) / (distance * weight)) * constraint.stiffness
+        a.position.addScaledVector(delta, correction * a.invMass)
+        b.position.addScaledVector(delta, -correction * b.invMass)
+      }
+
+      this.resolveCollisions(contactDepths, contactNormals)
+    }
+
+    this.applyFriction(contactDepths, contactNormals)
+
+    for (const particle of this.particles) {
+      maxMove = Math.max(maxMove, particle.position.distanceToSquared(particle.previous))
+    }
+
+    return maxMove
+  }
+
+  private resolveCollisions(depths: number[], normals: THREE.Vector3[]): void {
+    if (this.colliders.length === 0) return
+    const normal = new THREE.Vector3()
+
+    this.particles.forEach((particle, i) => {
+      if (particle.invMass === 0) return
+      for (const collider of this.colliders) {
+        const depth = collider.resolve(particle.position, this.particleRadius, normal)
+        if (depth > 0) {
+          depths[i] += depth
+          normals[i].copy(normal)
+        }
+      }
+    })
+  }
+
+  /**
+   * Coulomb friction: sliding along a surface is cancelled while it is
+   * smaller than the friction coefficient times how hard the particle was
+   * pushed out of the surface this step
+   */
+  private applyFriction(depths: number[], normals: THREE.Vector3[]): void {
+    const tangent = new THREE.Vector3()
+
+    this.particles.forEach((particle, i) => {
+      if (depths[i] === 0) return
+      tangent.subVectors(particle.position, particle.previous)
+      tangent.addScaledVector(normals[i], -tangent.dot(normals[i]))
+
+      const sliding = tangent.length()
+      const limit = this.friction * depths[i]
+      particle.position.addScaledVector(tangent, sliding <= limit ? -1 : -limit / sliding)
+    })
+  }
+}
+
+/**
+ * Build a simulation for a necklace, hanging each charm's weight from the
+ * particle at its attachment point
+ */
+export const createNecklaceSimulation = (
+  base: NecklaceBase,
+  charms: Necklace['charms'],
+  attachmentParameters: Record<string, number>,
+  options: Partial<ChainSimulationOptions> = {}
+): ChainSimulation => {
+  const simulation = new ChainSimulation({
+    length: base.length,
+    physics: base.physics,
+    ...options,
+  })
+
+  charms.forEach(({ charm, attachmentPointId }) => {
+    const pathParameter = attachmentParameters[attachmentPointId]
+    if (pathParameter !== undefined) {
+      simulation.addMass(pathParameter, charm.weight)
+    }
+  })
+
+  return simulation
+}
@@ -0,0 +1,143 @@
+import type { AttachmentPoint, Charm, CharmPlacement, Necklace, NecklaceBase, PlacementDiagnostic } from '../types'
+
+type PlacementCheck = (necklace: Necklace) => PlacementDiagnostic[]
+
+// Problems with putting this charm on this point, ignoring anything else on the necklace
+const checkCharmOnPoint = (charm: Charm, point: AttachmentPoint, charmIndex?: number): PlacementDiagnostic[] => {
+  const diagnostics: PlacementDiagnostic[] = []
+  const context = { charmIndex, charmId: charm.id, attachmentPointId: point.id }
+
+  if (charm.attachmentType !== point.type) {
+    diagnostics.push({
+      rule: 'incompatible-type',
+      severity: 'error',
+      message: `${charm.name} needs a ${charm.attachmentType} point, but '${point.id}' is a ${point.type}`,
+      ...context,
+    })
+  }
+  if (charm.size > point.maxCharmSize) {
+    diagnostics.push({
+      rule: 'charm-too-large',
+      severity: 'error',
+      message: `${charm.name} (size ${charm.size}) is larger than '${point.id}' allows (${point.maxCharmSize})`,
+      ...context,
+    })
+  }
+
+  return diagnostics
+}
+
+const groupByPoint = (charms: CharmPlacement[]) => {
+  const groups = new Map<string, number[]>()
+  charms.forEach(({ attachmentPointId }, index) => {
+    groups.set(attachmentPointId, [...(groups.get(attachmentPointId) ?? []), index])
+  })
+  return groups
+}
+
+const checkAttachmentPoints: PlacementCheck = ({ base, charms }) => {
+  return charms.flatMap(({ charm, attachmentPointId }, charmIndex): PlacementDiagnostic[] => {
+    const point = base.attachmentPoints.find(({ id }) => id === attachmentPointId)
+    if (point) return checkCharmOnPoint(charm, point, charmIndex)
+    return [{
+      rule: 'unknown-attachment-point',
+      severity: 'error',
+      message: `${charm.name} is attached to '${attachmentPointId}', which isn't on ${base.name}`,
+      charmIndex,
+      charmId: charm.id,
+      attachmentPointId,
+    }]
+  })
+}
+
+const checkOvercrowding: PlacementCheck = ({ base, charms }) => {
+  const groups = groupByPoint(charms)
+  return base.attachmentPoints.flatMap((point) => {
+    const indices = groups.get(point.id) ?? []
+    if (indices.length <= 1) return []
+    // Report each charm past the first; the first one keeps the point
+    return indices.slice(1).map((charmIndex): PlacementDiagnostic => ({
+      rule: 'point-overcrowded',
+      severity: 'error',
+      message: `'${point.id}' already holds ${charms[indices[0]].charm.name}, so ${charms[charmIndex].charm.name} can't share it`,
+      charmIndex,
+      charmId: charms[charmIndex].charm.id,
+      attachmentPointId: point.id,
+    }))
+  })
+}
+
+const checkOccupiedFlags: PlacementCheck = ({ base, charms }) => {
+  const groups = groupByPoint(charms)
+  return base.attachmentPoints.flatMap((point): PlacementDiagnostic[] => {
+    const occupied = groups.has(point.id)
+    if (point.occupied === occupied) return []
+    return [{
+      rule: 'occupied-mismatch',
+      severity: 'warning',
+      message: occupied
+        ? `'${point.id}' holds a charm but isn't marked occupied`
+        : `'${point.id}' is marked occupied but has no charm`,
+      attachmentPointId: point.id,
+    }]
+  })
+}
+
+export const PLACEMENT_CHECKS: PlacementCheck[] = [checkAttachmentPoints, checkOvercrowding, checkOccupiedFlags]
+
+/**
+ * Check every charm placement on a necklace. An empty list means the
+ * design is valid; errors mean a charm can't be shown where it is.
+ */
+export const validatePlacement = (necklace: Necklace): PlacementDiagnostic[] => {
+  return PLACEMENT_CHECKS.flatMap((check) => check(necklace))
+}
+
+/**
+ * Problems with adding (or moving) a charm onto a point, including the
+ * point being taken. Pass the index of the charm being moved so its own
+ * current point doesn't count as taken.
+ */
+export const checkPlacement = (
+  necklace: Necklace,
+  charm: Charm,
+  attachmentPointId: string,
+  movingIndex?: number
+): PlacementDiagnostic[] => {
+  const point = necklace.base.attachmentPoints.find(({ id }) => id === attachmentPointId)
+  if (!point) {
+    return [{
+      rule: 'unknown-attachment-point',
+      severity: 'error',
+      message: `'${attachmentPointId}' isn't on ${necklace.base.name}`,
+      charmId: charm.id,
+      attachmentPointId,
+    }]
+  }
+
+  const diagnostics = checkCharmOnPoint(charm, point, movingIndex)
+  const holder = necklace.charms.find((placement, index) => index !== movingIndex && placement.attachmentPointId === point.id)
+  if (holder) {
+    diagnostics.push({
+      rule: 'point-overcrowded',
+      severity: 'error',
+      message: `'${point.id}' already holds ${holder.charm.name}`,
+      charmIndex: movingIndex,
+      charmId: charm.id,
+      attachmentPointId: point.id,
+    })
+  }
+  return diagnostics
+}
+
+/**
+ * Base with each point's occupied flag set from the charms actually on it
+ */
+export const syncOccupiedFlags = (base: NecklaceBase, charms: CharmPlacement[]): NecklaceBase => {
+  const groups = groupByPoint(charms)
+  if (base.attachmentPoints.every((point) => point.occupied === groups.has(point.id))) return base
+  return {
+    ...base,
+    attachmentPoints: base.attachmentPoints.map((point) => ({ ...point, occupied: groups.has(point.id) })),
+  }
+}
@@ -0,0 +1,148 @@
+import { MILLIMETRES_PER_UNIT } from '../types'
+import type { Necklace, PriceTable, Quote, QuoteLine, QuoteOptions, RoundingRule } from '../types'
+import { parseDesign } from './serialization'
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  currency: 'USD',
+  basePerInch: {
+    '18K Gold': 45,
+    'Rose Gold': 40,
+    'Platinum': 60,
+    '925 Silver': 4,
+  },
+  basePerInchByType: {
+    metal: 10,
+    gemstone: 30,
+    pearl: 20,
+    fabric: 1,
+    leather: 1.5,
+  },
+  chainStyleFactor: {
+    cable: 1,
+    curb: 1.1,
+    rope: 1.4,
+    box: 1.2,
+    figaro: 1.15,
+    singapore: 1.3,
+    snake: 1.35,
+  },
+  charmByType: {
+    pendant: 60,
+    bead: 20,
+    gemstone: 150,
+    ornament: 30,
+  },
+  labor: {
+    assembly: 25,
+    perCharm: 8,
+  },
+  engraving: {
+    setup: 15,
+    perCharacter: 1.5,
+    maxCharacters: 30,
+  },
+}
+
+const MILLIMETRES_PER_INCH = 25.4
+
+export const getLengthInInches = (length: number) => (length * MILLIMETRES_PER_UNIT) / MILLIMETRES_PER_INCH
+
+/**
+ * Amount arithmetic is done in whole minor units (cents) so sums don't
+ * pick up floating point error
+ */
+const createMoney = (currency: string, locale?: string) => {
+  const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency })
+  const digits = formatter.resolvedOptions().maximumFractionDigits ?? 2
+  const scale = Math.pow(10, digits)
+
+  return {
+    // Half away from zero, like a till
+    toMinor: (amount: number) => Math.sign(amount) * Math.round(Math.abs(amount) * scale),
+    fromMinor: (minor: number) => minor / scale,
+    format: (minor: number) => formatter.format(minor / scale),
+    roundTo: (minor: number, { increment, mode }: RoundingRule) => {
+      const step = Math.max(1, Math.round(increment * scale))
+      const round = mode === 'up' ? Math.ceil : mode === 'down' ? Math.floor : Math.round
+      return round(minor / step) * step
+    },
+  }
+}
+
+/**
+ * Itemized quote for a necklace design: the base priced by material and
+ * length, each charm, labor and optional engraving
+ */
+export const quoteNecklace = (necklace: Necklace, options: QuoteOptions = {}): Quote => {
+  const table = options.priceTable ?? DEFAULT_PRICE_TABLE
+  const money = createMoney(table.currency, options.locale)
+  const lines: Array<Omit<QuoteLine, 'amount' | 'formatted'> & { minor: number }> = []
+  const { base } = necklace
+
+  // Base chain, cord or strand
+  const inches = getLengthInInches(base.length)
+  const namedRate = table.basePerInch[base.material.name]
+  const rate = namedRate ?? table.basePerInchByType[base.material.type]
+  const styleFactor = base.type === 'chain' ? table.chainStyleFactor[base.chainStyle ?? 'cable'] : 1
+  lines.push({
+    kind: 'base',
+    description: `${base.name} (${base.material.name}, ${inches.toFixed(1)}")`,
+    minor: money.toMinor(rate * inches * styleFactor),
+    estimated: namedRate === undefined,
+  })
+
+  necklace.charms.forEach(({ charm }, charmIndex) => {
+    const price = charm.metadata?.price
+    lines.push({
+      kind: 'charm',
+      description: charm.name,
+      minor: money.toMinor(price ?? table.charmByType[charm.type]),
+      estimated: price === undefined,
+      charmIndex,
+    })
+  })
+
+  lines.push({
+    kind: 'labor',
+    description: necklace.charms.length > 0
+      ? `Assembly and fitting ${necklace.charms.length} charm${necklace.charms.length === 1 ? '' : 's'}`
+      : 'Assembly',
+    minor: money.toMinor(table.labor.assembly + table.labor.perCharm * necklace.charms.length),
+  })
+
+  const engraving = options.engraving?.trim()
+  if (engraving) {
+    const characters = engraving.replace(/\s/g, '').length
+    if (characters > table.engraving.maxCharacters) {
+      throw new RangeError(`Engraving is limited to ${table.engraving.maxCharacters} characters`)
+    }
+    lines.push({
+      kind: 'engraving',
+      description: `Engraving "${engraving}"`,
+      minor: money.toMinor(table.engraving.setup + table.engraving.perCharacter * characters),
+    })
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.minor, 0)
+  const total = options.rounding ? money.roundTo(subtotal, options.rounding) : subtotal
+  if (total !== subtotal) {
+    lines.push({ kind: 'rounding', description: 'Rounding', minor: total - subtotal })
+  }
+
+  return {
+    necklaceId: necklace.id,
+    currency: table.currency,
+    lines: lines.map(({ minor, ...line }) => ({ ...line, amount: money.fromMinor(minor), formatted: money.format(minor) })),
+    total: money.fromMinor(total),
+    formattedTotal: money.format(total),
+    listPrice: necklace.metadata.price,
+  }
+}
+
+/**
+ * Quote a saved design file (string or parsed JSON) without loading it
+ * into the viewer
+ */
+export const quoteDesign = (input: unknown, options: QuoteOptions = {}): Quote => {
+  return quoteNecklace(parseDesign('necklace', input), options)
+}
@@ -0,0 +1,516 @@
+import * as THREE from 'three'
+import type {
+  AttachmentPoint,
+  AttachmentPointJSON,
+  Charm,
+  CharmPlacement,
+  CharmPlacementJSON,
+  DesignDocument,
+  DesignDocumentMap,
+  DesignKind,
+  EulerJSON,
+  JewelryMaterial,
+  Necklace,
+  NecklaceBase,
+  NecklaceBaseJSON,
+  NecklaceCollection,
+  NecklaceCollectionJSON,
+  NecklaceJSON,
+  ValidationIssue,
+} from '../types'
+import { MATERIAL_DATABASE_KEYS } from './materialDatabase'
+
+/**
+ * Design file format
+ *
+ * Every file is an envelope `{ schemaVersion, kind, data }` where kind is
+ * 'necklace', 'base', 'charm', 'collection' or 'material' (a saved
+ * material preset) and data follows the JSON types in
+ * types/serialization.ts. Files from older versions are migrated on load;
+ * files without a schemaVersion are treated as version 0, a raw
+ * JSON.stringify of the runtime objects.
+ */
+export const SCHEMA_VERSION = 1
+
+export class DesignValidationError extends Error {
+  readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid design:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`)
+    this.name = 'DesignValidationError'
+    this.issues = issues
+  }
+}
+
+// Runtime <-> JSON conversion
+
+const eulerToJSON = (euler: THREE.Euler): EulerJSON =>
+  euler.order === 'XYZ' ? [euler.x, euler.y, euler.z] : [euler.x, euler.y, euler.z, euler.order]
+
+const eulerFromJSON = (json: EulerJSON = [0, 0, 0]) => new THREE.Euler(json[0], json[1], json[2], json[3] ?? 'XYZ')
+
+const attachmentPointToJSON = (point: AttachmentPoint): AttachmentPointJSON => ({
+  ...point,
+  rotation: eulerToJSON(point.rotation),
+})
+
+const attachmentPointFromJSON = (json: AttachmentPointJSON): AttachmentPoint => ({
+  ...json,
+  rotation: eulerFromJSON(json.rotation),
+  occupied: json.occupied ?? false,
+})
+
+const baseToJSON = (base: NecklaceBase): NecklaceBaseJSON => ({
+  ...base,
+  attachmentPoints: base.attachmentPoints.map(attachmentPointToJSON),
+})
+
+const baseFromJSON = (json: NecklaceBaseJSON): NecklaceBase => ({
+  ...json,
+  attachmentPoints: json.attachmentPoints.map(attachmentPointFromJSON),
+})
+
+export const charmPlacementToJSON = ({ customRotation, ...placement }: CharmPlacement): CharmPlacementJSON => ({
+  ...placement,
+  ...(customRotation && { customRotation: eulerToJSON(customRotation) }),
+})
+
+export const charmPlacementFromJSON = ({ customRotation, ...placement }: CharmPlacementJSON): CharmPlacement => ({
+  ...placement,
+  ...(customRotation && { customRotation: eulerFromJSON(customRotation) }),
+})
+
+const necklaceToJSON = (necklace: Necklace): NecklaceJSON => ({
+  ...necklace,
+  base: baseToJSON(necklace.base),
+  charms: necklace.charms.map(charmPlacementToJSON),
+  metadata: {
+    ...necklace.metadata,
+    created: necklace.metadata.created.toISOString(),
+    modified: necklace.metadata.modified.toISOString(),
+  },
+})
+
+const necklaceFromJSON = (json: NecklaceJSON): Necklace => ({
+  ...json,
+  base: baseFromJSON(json.base),
+  charms: json.charms.map(charmPlacementFromJSON),
+  metadata: {
+    ...json.metadata,
+    created: new Date(json.metadata.created),
+    modified: new Date(json.metadata.modified),
+  },
+})
+
+const collectionToJSON = (collection: NecklaceCollection): NecklaceCollectionJSON => ({
+  ...collection,
+  necklaces: collection.necklaces.map(necklaceToJSON),
+})
+
+const collectionFromJSON = (json: NecklaceCollectionJSON): NecklaceCollection => ({
+  ...json,
+  necklaces: json.necklaces.map(necklaceFromJSON),
+})
+
+export interface DesignRuntimeMap {
+  necklace: Necklace
+  base: NecklaceBase
+  charm: Charm
+  collection: NecklaceCollection
+  material: JewelryMaterial
+}
+
+const CONVERTERS: {
+  [K in DesignKind]: {
+    toJSON: (value: DesignRuntimeMap[K]) => DesignDocumentMap[K]
+    fromJSON: (json: DesignDocumentMap[K]) => DesignRuntimeMap[K]
+  }
+} = {
+  necklace: { toJSON: necklaceToJSON, fromJSON: necklaceFromJSON },
+  base: { toJSON: baseToJSON, fromJSON: baseFromJSON },
+  charm: { toJSON: (charm) => ({ ...charm }), fromJSON: (json) => ({ ...json }) },
+  collection: { toJSON: collectionToJSON, fromJSON: collectionFromJSON },
+  material: { toJSON: (material) => ({ ...material }), fromJSON: (json) => ({ ...json }) },
+}
+
+// Schema validation
+
+type Json = Record<string, unknown>
+
+const MATERIAL_TYPES = ['metal', 'gemstone', 'pearl', 'fabric', 'leather'] as const
+const CHARM_TYPES = ['pendant', 'bead', 'gemstone', 'ornament'] as const
+const BASE_TYPES = ['chain', 'cord', 'beaded', 'wire'] as const
+const ATTACHMENT_TYPES = ['link', 'clasp', 'centerpiece', 'segment'] as const
+const CHAIN_STYLES = ['cable', 'curb', 'rope', 'box', 'figaro', 'singapore', 'snake'] as const
+const GEM_CUTS = ['round-brilliant', 'princess', 'emerald', 'oval', 'pear', 'marquise', 'cushion', 'cabochon'] as const
+const LIGHTING_PRESETS = ['studio', 'natural', 'dramatic', 'soft', 'jewelry-studio'] as const
+const BACKGROUNDS = ['gradient', 'hdri', 'solid'] as const
+const RARITIES = ['common', 'rare', 'legendary'] as const
+const EULER_ORDERS = ['XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'] as const
+
+export const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value)
+
+class SchemaValidator {
+  readonly issues: ValidationIssue[] = []
+
+  fail(path: string, message: string): false {
+    this.issues.push({ path, message })
+    return false
+  }
+
+  object(value: unknown, path: string): value is Json {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true
+    return this.fail(path, `expected an object, got ${describe(value)}`)
+  }
+
+  string(parent: Json, key: string, path: string, optional = false) {
+    const value = parent[key]
+    if (value === undefined && optional) return
+    if (typeof value !== 'string') this.fail(`${path}.${key}`, `expected a string, got ${describe(value)}`)
+  }
+
+  number(parent: Json, key: string, path: string, options: { min?: number; max?: number; optional?: boolean } = {}) {
+    const value = parent[key]
+    if (value === undefined && options.optional) return
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, `expected a number, got ${describe(value)}`)
+    } else if (options.min !== undefined && value < options.min) {
+      this.fail(`${path}.${key}`, `expected at least ${options.min}, got ${value}`)
+    } else if (options.max !== undefined && value > options.max) {
+      this.fail(`${path}.${key}`, `expected at most ${options.max}, got ${value}`)
+    }
+  }
+
+  boolean(parent: Json, key: string, path: string, optional = false) {
+    const value = parent[key]
+    if (value === undefined && optional) return
+    if (typeof value !== 'boolean') this.fail(`${path}.${key}`, `expected true or false, got ${describe(value)}`)
+  }
+
+  oneOf(parent: Json, key: string, options: readonly string[], path: string, optional = false) {
+    const value = parent[key]
+    if (value === undefined && optional) return
+    if (typeof value !== 'string' || !options.includes(value)) {
+      this.fail(`${path}.${key}`, `expected one of ${options.map((option) => `'${option}'`).join(', ')}, got ${JSON.stringify(value)}`)
+    }
+  }
+
+  array(parent: Json, key: string, path: string, item: (value: unknown, path: string) => void, optional = false) {
+    const value = parent[key]
+    if (value === undefined && optional) return
+    if (!Array.isArray(value)) {
+      this.fail(`${path}.${key}`, `expected an array, got ${describe(value)}`)
+      return
+    }
+    value.forEach((entry, index) => item(entry, `${path}.${key}[${index}]`))
+  }
+
+  vector3(parent: Json, key: string, path: string, optional = false) {
+    this.tuple(parent, key, path, 3, 3, optional)
+  }
+
+  euler(parent: Json, key: string, path: string, optional = false) {
+    if (!this.tuple(parent, key, path, 3, 4, optional)) return
+    const value = parent[key] as unknown[] | undefined
+    if (value && value.length === 4 && !EULER_ORDERS.includes(value[3] as (typeof EULER_ORDERS)[number])) {
+      this.fail(`${path}.${key}[3]`, `expected a rotation order such as 'XYZ', got ${JSON.stringify(value[3])}`)
+    }
+  }
+
+  private tuple(parent: Json, key: string, path: string, min: number, max: number, optional: boolean): boolean {
+    const value = parent[key]
+    if (value === undefined && optional) return true
+    if (!Array.isArray(value) || value.length < min || value.length > max) {
+      return this.fail(`${path}.${key}`, `expected [x, y, z]${max > min ? ' with an optional order' : ''}, got ${JSON.stringify(value)}`)
+    }
+    let valid = true
+    for (let i = 0; i < 3; i++) {
+      if (typeof value[i] !== 'number' || !Number.isFinite(value[i])) {
+        valid = this.fail(`${path}.${key}[${i}]`, `expected a number, got ${describe(value[i])}`)
+      }
+    }
+    return valid
+  }
+}
+
+const validateMaterial = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.oneOf(value, 'type', MATERIAL_TYPES, path)
+  v.string(value, 'name', path)
+  v.string(value, 'color', path)
+  v.number(value, 'metallic', path, { min: 0, max: 1, optional: true })
+  v.number(value, 'roughness', path, { min: 0, max: 1, optional: true })
+  v.number(value, 'transparency', path, { min: 0, max: 1, optional: true })
+  v.number(value, 'refraction', path, { min: 1, optional: true })
+  v.number(value, 'dispersion', path, { min: 0, optional: true })
+  v.string(value, 'textureUrl', path, true)
+  v.string(value, 'normalMapUrl', path, true)
+  v.oneOf(value, 'databaseKey', MATERIAL_DATABASE_KEYS, path, true)
+}
+
+const validateModelPaths = (v: SchemaValidator, value: Json, path: string) => {
+  v.string(value, 'modelPath', path)
+  v.array(value, 'lodModelPaths', path, (modelPath, modelPathPath) => {
+    if (typeof modelPath !== 'string') v.fail(modelPathPath, `expected a string, got ${describe(modelPath)}`)
+  }, true)
+}
+
+const validateCharm = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.string(value, 'id', path)
+  v.string(value, 'name', path)
+  v.oneOf(value, 'type', CHARM_TYPES, path)
+  validateModelPaths(v, value, path)
+  if (value.gem !== undefined && v.object(value.gem, `${path}.gem`)) {
+    const gem = value.gem
+    v.oneOf(gem, 'cut', GEM_CUTS, `${path}.gem`)
+    v.number(gem, 'carat', `${path}.gem`, { min: Number.EPSILON })
+    if (gem.proportions !== undefined && v.object(gem.proportions, `${path}.gem.proportions`)) {
+      const proportions = gem.proportions
+      v.number(proportions, 'table', `${path}.gem.proportions`, { min: 0, max: 100, optional: true })
+      v.number(proportions, 'crownAngle', `${path}.gem.proportions`, { min: 0, max: 89, optional: true })
+      v.number(proportions, 'pavilionDepth', `${path}.gem.proportions`, { min: 0, optional: true })
+      v.number(proportions, 'girdle', `${path}.gem.proportions`, { min: 0, optional: true })
+    }
+  }
+  validateMaterial(v, value.material, `${path}.material`)
+  v.number(value, 'size', path, { min: 0 })
+  v.number(value, 'weight', path, { min: 0 })
+  v.oneOf(value, 'attachmentType', ATTACHMENT_TYPES, path)
+  if (value.metadata !== undefined && v.object(value.metadata, `${path}.metadata`)) {
+    const metadata = value.metadata
+    v.string(metadata, 'description', `${path}.metadata`, true)
+    v.number(metadata, 'price', `${path}.metadata`, { min: 0, optional: true })
+    v.string(metadata, 'artisan', `${path}.metadata`, true)
+    v.oneOf(metadata, 'rarity', RARITIES, `${path}.metadata`, true)
+  }
+}
+
+const validateAttachmentPoint = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.string(value, 'id', path)
+  v.vector3(value, 'position', path)
+  v.number(value, 'pathParameter', path, { min: 0, max: 1, optional: true })
+  v.euler(value, 'rotation', path, true)
+  v.oneOf(value, 'type', ATTACHMENT_TYPES, path)
+  v.number(value, 'maxCharmSize', path, { min: 0 })
+  v.boolean(value, 'occupied', path, true)
+}
+
+const validateBase = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.string(value, 'id', path)
+  v.string(value, 'name', path)
+  v.oneOf(value, 'type', BASE_TYPES, path)
+  validateModelPaths(v, value, path)
+  validateMaterial(v, value.material, `${path}.material`)
+  v.number(value, 'length', path, { min: Number.EPSILON })
+  v.oneOf(value, 'chainStyle', CHAIN_STYLES, path, true)
+  v.number(value, 'linkGauge', path, { min: Number.EPSILON, optional: true })
+  v.number(value, 'linkLength', path, { min: Number.EPSILON, optional: true })
+  v.array(value, 'attachmentPoints', path, (point, pointPath) => validateAttachmentPoint(v, point, pointPath))
+  if (v.object(value.physics, `${path}.physics`)) {
+    v.number(value.physics, 'segments', `${path}.physics`, { min: 3 })
+    v.number(value.physics, 'stiffness', `${path}.physics`, { min: 0, max: 1 })
+    v.number(value.physics, 'damping', `${path}.physics`, { min: 0, max: 1 })
+  }
+}
+
+const validateDate = (v: SchemaValidator, parent: Json, key: string, path: string) => {
+  const value = parent[key]
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    v.fail(`${path}.${key}`, `expected an ISO 8601 date string, got ${JSON.stringify(value)}`)
+  }
+}
+
+const validateNecklace = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.string(value, 'id', path)
+  v.string(value, 'name', path)
+  validateBase(v, value.base, `${path}.base`)
+  v.array(value, 'charms', path, (entry, entryPath) => {
+    if (!v.object(entry, entryPath)) return
+    validateCharm(v, entry.charm, `${entryPath}.charm`)
+    v.string(entry, 'attachmentPointId', entryPath)
+    v.vector3(entry, 'customPosition', entryPath, true)
+    v.euler(entry, 'customRotation', entryPath, true)
+  })
+  if (v.object(value.displaySettings, `${path}.displaySettings`)) {
+    const settings = value.displaySettings
+    v.vector3(settings, 'defaultCameraPosition', `${path}.displaySettings`)
+    v.vector3(settings, 'defaultCameraTarget', `${path}.displaySettings`)
+    v.oneOf(settings, 'lighting', LIGHTING_PRESETS, `${path}.displaySettings`)
+    v.oneOf(settings, 'background', BACKGROUNDS, `${path}.displaySettings`)
+  }
+  if (v.object(value.metadata, `${path}.metadata`)) {
+    const metadata = value.metadata
+    v.string(metadata, 'description', `${path}.metadata`)
+    v.string(metadata, 'category', `${path}.metadata`)
+    v.array(metadata, 'tags', `${path}.metadata`, (tag, tagPath) => {
+      if (typeof tag !== 'string') v.fail(tagPath, `expected a string, got ${describe(tag)}`)
+    })
+    validateDate(v, metadata, 'created', `${path}.metadata`)
+    validateDate(v, metadata, 'modified', `${path}.metadata`)
+    v.number(metadata, 'price', `${path}.metadata`, { min: 0, optional: true })
+    v.boolean(metadata, 'availability', `${path}.metadata`, true)
+  }
+}
+
+const validateCollection = (v: SchemaValidator, value: unknown, path: string) => {
+  if (!v.object(value, path)) return
+  v.string(value, 'id', path)
+  v.string(value, 'name', path)
+  v.string(value, 'description', path)
+  v.array(value, 'necklaces', path, (necklace, necklacePath) => validateNecklace(v, necklace, necklacePath))
+  v.array(value, 'featured', path, (id, idPath) => {
+    if (typeof id !== 'string') v.fail(idPath, `expected a necklace id, got ${describe(id)}`)
+  })
+}
+
+const VALIDATORS: Record<DesignKind, (v: SchemaValidator, value: unknown, path: string) => void> = {
+  necklace: validateNecklace,
+  base: validateBase,
+  charm: validateCharm,
+  collection: validateCollection,
+  material: validateMaterial,
+}
+
+// Migrations
+
+type MigratableDocument = { schemaVersion: number; kind?: DesignKind; data: unknown }
+
+/**
+ * Version 0 files are raw JSON.stringify output: THREE.Euler serialises as
+ * { _x, _y, _z, _order } and there is no envelope, so the kind is guessed
+ * from the shape
+ */
+const migrateV0ToV1 = (document: MigratableDocument): MigratableDocument => {
+  const convertEulers = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(convertEulers)
+    if (typeof value !== 'object' || value === null) return value
+    const record = value as Json
+    if ('_x' in record && '_y' in record && '_z' in record) {
+      const order = record._order ?? 'XYZ'
+      return order === 'XYZ' ? [record._x, record._y, record._z] : [record._x, record._y, record._z, order]
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, convertEulers(entry)]))
+  }
+
+  const data = convertEulers(document.data)
+  if (!isObject(data)) {
+    throw new DesignValidationError([{ path: '(file)', message: `expected a design object, got ${describe(data)}` }])
+  }
+  const kind = document.kind ?? (
+    'necklaces' in data ? 'collection'
+      : 'charms' in data ? 'necklace'
+        : 'attachmentPoints' in data ? 'base'
+          : 'attachmentType' in data ? 'charm'
+            : undefined
+  )
+  if (!kind) {
+    throw new DesignValidationError([{ path: '(file)', message: 'not a necklace, base, charm or collection' }])
+  }
+
+  return { schemaVersion: 1, kind, data }
+}
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Array<(document: MigratableDocument) => MigratableDocument> = [migrateV0ToV1]
+
+/**
+ * Upgrade a parsed design file of any known version to the current schema
+ */
+export const migrateDesign = (input: unknown): MigratableDocument => {
+  const record = (typeof input === 'object' && input !== null ? input : {}) as Json
+  let document: MigratableDocument = typeof record.schemaVersion === 'number'
+    ? { schemaVersion: record.schemaVersion, kind: record.kind as DesignKind | undefined, data: record.data }
+    : { schemaVersion: 0, data: input }
+
+  if (document.schemaVersion > SCHEMA_VERSION) {
+    throw new DesignValidationError([{
+      path: 'schemaVersion',
+      message: `version ${document.schemaVersion} is newer than this viewer supports (${SCHEMA_VERSION})`,
+    }])
+  }
+
+  while (document.schemaVersion < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[document.schemaVersion]
+    if (!migrate) {
+      throw new DesignValidationError([{ path: 'schemaVersion', message: `no migration from version ${document.schemaVersion}` }])
+    }
+    document = migrate(document)
+  }
+
+  return document
+}
+
+// Public API
+
+export interface DesignValidationResult {
+  valid: boolean
+  issues: ValidationIssue[]
+}
+
+const parseInput = (input: unknown): unknown => {
+  if (typeof input !== 'string') return input
+  try {
+    return JSON.parse(input)
+  } catch (error) {
+    throw new DesignValidationError([{ path: '(file)', message: error instanceof Error ? error.message : 'invalid JSON' }])
+  }
+}
+
+const checkDocument = <K extends DesignKind>(kind: K, input: unknown): DesignDocument<K> => {
+  const document = migrateDesign(parseInput(input))
+  const validator = new SchemaValidator()
+
+  if (document.kind !== kind) {
+    validator.fail('kind', `expected '${kind}', got ${JSON.stringify(document.kind)}`)
+  } else {
+    VALIDATORS[kind](validator, document.data, kind)
+  }
+
+  if (validator.issues.length > 0) {
+    throw new DesignValidationError(validator.issues)
+  }
+  return document as DesignDocument<K>
+}
+
+/**
+ * Check a design file (string or parsed JSON) without loading it
+ */
+export const validateDesign = (kind: DesignKind, input: unknown): DesignValidationResult => {
+  try {
+    checkDocument(kind, input)
+    return { valid: true, issues: [] }
+  } catch (error) {
+    if (error instanceof DesignValidationError) {
+      return { valid: false, issues: error.issues }
+    }
+    throw error
+  }
+}
+
+/**
+ * Load a design file (string or parsed JSON), migrating older versions.
+ * Throws DesignValidationError listing every problem found.
+ */
+export const parseDesign = <K extends DesignKind>(kind: K, input: unknown): DesignRuntimeMap[K] => {
+  const document = checkDocument(kind, input)
+  return CONVERTERS[kind].fromJSON(document.data)
+}
+
+/**
+ * Wrap a runtime object in a current-version design document
+ */
+export const serializeDesign = <K extends DesignKind>(kind: K, value: DesignRuntimeMap[K]): DesignDocument<K> => ({
+  schemaVersion: SCHEMA_VERSION,
+  kind,
+  data: CONVERTERS[kind].toJSON(value),
+})
+
+export const stringifyDesign = <K extends DesignKind>(kind: K, value: DesignRuntimeMap[K], space: number = 2): string =>
+  JSON.stringify(serializeDesign(kind, value), null, space)
@@ -0,0 +1,152 @@
+import type { CameraView, ShareLinkPayloadJSON, ShareLinkState, ViewerState } from '../types'
+import { isObject, parseDesign, serializeDesign } from './serialization'
+
+/**
+ * Links look like `#share=1.<data>`: the format version, then the payload
+ * JSON deflated and base64url encoded. Bump the version when the payload
+ * changes shape and keep decoding the old one.
+ */
+export const SHARE_LINK_VERSION = 1
+
+const FRAGMENT_PATTERN = /^#?share=(\d+)\.([A-Za-z0-9_-]+)$/
+
+// Camera coordinates to a thousandth of a unit, which is far below what shows on screen
+const CAMERA_PRECISION = 1000
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+// Compression
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach((byte) => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// Viewer state
+
+const VIEWER_ENUMS = {
+  cameraMode: ['orbit', 'preset', 'cinematic'],
+  displayMode: ['floating', 'mannequin', 'flat'],
+  lighting: ['studio', 'natural', 'dramatic', 'soft', 'jewelry-studio'],
+  highlight: ['none', 'shimmer', 'pulse', 'rainbow', 'sparkle'],
+} as const
+
+const VIEWER_FLAGS = ['showPhysics', 'showAttachmentPoints', 'editMode'] as const
+
+/**
+ * Keep the viewer settings that are valid for this version of the viewer;
+ * anything else is dropped so the link still opens
+ */
+const readViewerState = (input: unknown): ShareLinkState['viewer'] => {
+  if (typeof input !== 'object' || input === null) return {}
+  const record = input as Record<string, unknown>
+  const viewer: ShareLinkState['viewer'] = {}
+
+  for (const [key, values] of Object.entries(VIEWER_ENUMS) as Array<[keyof typeof VIEWER_ENUMS, readonly string[]]>) {
+    if (values.includes(record[key] as string)) {
+      Object.assign(viewer, { [key]: record[key] })
+    }
+  }
+  for (const key of VIEWER_FLAGS) {
+    if (typeof record[key] === 'boolean') viewer[key] = record[key]
+  }
+  if (typeof record.selectedCharmId === 'string' || record.selectedCharmId === null) {
+    viewer.selectedCharmId = record.selectedCharmId
+  }
+
+  return viewer
+}
+
+const roundCoordinate = (value: number) => Math.round(value * CAMERA_PRECISION) / CAMERA_PRECISION
+
+const readCamera = (input: unknown): CameraView | undefined => {
+  if (!Array.isArray(input) || input.length !== 6 || !input.every(Number.isFinite)) return undefined
+  return { position: [input[0], input[1], input[2]], target: [input[3], input[4], input[5]] }
+}
+
+// Public API
+
+/**
+ * Encode a view as a URL fragment (with the leading #). Designs from the
+ * catalog go by ID; pass `design` for anything custom.
+ */
+export const encodeShareLink = async (state: ShareLinkState): Promise<string> => {
+  // The necklace travels as n or d instead
+  const viewer: Partial<ViewerState> = { ...state.viewer }
+  delete viewer.selectedNecklaceId
+  const payload: ShareLinkPayloadJSON = { v: viewer }
+  if (state.design) {
+    payload.d = serializeDesign('necklace', state.design)
+  } else if (state.necklaceId) {
+    payload.n = state.necklaceId
+  }
+  if (state.camera) {
+    payload.c = [...state.camera.position, ...state.camera.target].map(roundCoordinate) as ShareLinkPayloadJSON['c']
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(payload))
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'))
+  return `#share=${SHARE_LINK_VERSION}.${toBase64Url(compressed)}`
+}
+
+/**
+ * Whether a fragment looks like a share link, so other fragments can be
+ * left alone
+ */
+export const isShareLink = (fragment: string) => FRAGMENT_PATTERN.test(fragment)
+
+/**
+ * Decode a fragment written by encodeShareLink. Throws a ShareLinkError if
+ * it's damaged or from a newer viewer, and a DesignValidationError if the
+ * inline design is invalid.
+ */
+export const decodeShareLink = async (fragment: string): Promise<ShareLinkState> => {
+  const match = FRAGMENT_PATTERN.exec(fragment)
+  if (!match) throw new ShareLinkError('Not a share link')
+
+  const version = Number(match[1])
+  if (version > SHARE_LINK_VERSION) {
+    throw new ShareLinkError(`Share link version ${version} is newer than this viewer supports (${SHARE_LINK_VERSION})`)
+  }
+
+  let payload: unknown
+  try {
+    const json = await pipeBytes(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'))
+    payload = JSON.parse(new TextDecoder().decode(json))
+  } catch {
+    throw new ShareLinkError('Share link is damaged or incomplete')
+  }
+  if (!isObject(payload)) throw new ShareLinkError('Share link is damaged or incomplete')
+
+  return {
+    necklaceId: payload.d ? null : typeof payload.n === 'string' ? payload.n : null,
+    design: payload.d ? parseDesign('necklace', payload.d) : undefined,
+    viewer: readViewerState(payload.v),
+    camera: readCamera(payload.c),
+  }
+}
+
+/**
+ * Full URL for a view, on the current page
+ */
+export const createShareUrl = async (state: ShareLinkState, href: string = window.location.href) => {
+  const url = new URL(href)
+  url.hash = await encodeShareLink(state)
+  return url.toString()
+}
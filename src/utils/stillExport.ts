@@ -0,0 +1,203 @@
+import * as THREE from 'three'
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js'
+import type { CameraView } from '../types'
+
+export interface StillExportOptions {
+  width: number // Pixels
+  height: number
+  transparent?: boolean // Drop the scene background; the PNG keeps alpha
+  backgroundColor?: string // CSS colour behind opaque stills, where the page would show through the canvas
+  maxTileSize?: number // Largest tile rendered at once, further capped by the GPU's limits
+}
+
+export const STILL_RESOLUTIONS = {
+  'HD': { width: 1920, height: 1080 },
+  '4K': { width: 3840, height: 2160 },
+  '8K': { width: 7680, height: 4320 },
+  'Square 4K': { width: 4096, height: 4096 },
+} as const
+
+const DEFAULT_MAX_TILE_SIZE = 4096
+const DEFAULT_BACKGROUND_COLOR = '#242424' // The page behind the canvas
+
+// userData flags: labels, debug overlays and drop targets are left out of
+// every still; backdrops (the floor) only out of transparent ones
+export const HIDE_IN_EXPORT = 'hideInExport'
+export const BACKDROP = 'backdrop'
+
+type ExportCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera
+
+const getTileLimit = (renderer: THREE.WebGLRenderer, requested: number) => {
+  const gl = renderer.getContext()
+  const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array
+  return Math.min(
+    requested,
+    gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+    viewport[0],
+    viewport[1]
+  )
+}
+
+/**
+ * Set the renderer, scene and camera up for export, run the callback and
+ * put everything back. Synchronous, so the page never shows the export
+ * state.
+ */
+const withExportState = <T>(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: ExportCamera,
+  transparent: boolean,
+  callback: () => T
+): T => {
+  const size = renderer.getSize(new THREE.Vector2())
+  const pixelRatio = renderer.getPixelRatio()
+  const clearColor = renderer.getClearColor(new THREE.Color())
+  const clearAlpha = renderer.getClearAlpha()
+  const background = scene.background
+  const cameraState = {
+    position: camera.position.clone(),
+    quaternion: camera.quaternion.clone(),
+    aspect: camera instanceof THREE.PerspectiveCamera ? camera.aspect : 0,
+  }
+
+  const hidden: THREE.Object3D[] = []
+  scene.traverse((object) => {
+    const hide = object.userData[HIDE_IN_EXPORT] || (transparent && object.userData[BACKDROP])
+    if (hide && object.visible) {
+      object.visible = false
+      hidden.push(object)
+    }
+  })
+
+  if (transparent) {
+    scene.background = null
+    renderer.setClearColor(clearColor, 0)
+  }
+
+  try {
+    return callback()
+  } finally {
+    hidden.forEach((object) => { object.visible = true })
+    scene.background = background
+    renderer.setClearColor(clearColor, clearAlpha)
+    renderer.setPixelRatio(pixelRatio)
+    renderer.setSize(size.x, size.y, false)
+    camera.position.copy(cameraState.position)
+    camera.quaternion.copy(cameraState.quaternion)
+    if (camera instanceof THREE.PerspectiveCamera) camera.aspect = cameraState.aspect
+    camera.clearViewOffset()
+    camera.updateProjectionMatrix()
+    camera.updateMatrixWorld()
+  }
+}
+
+/**
+ * Render the camera's view at the full size into a 2D canvas, a tile at a
+ * time. Each tile is drawn to the renderer's own canvas and copied out
+ * straight away, so stills get the same tone mapping and colour space as
+ * the screen.
+ */
+const renderToCanvas = (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: ExportCamera,
+  { width, height, transparent, backgroundColor = DEFAULT_BACKGROUND_COLOR, maxTileSize = DEFAULT_MAX_TILE_SIZE }: StillExportOptions
+) => {
+  const output = document.createElement('canvas')
+  output.width = width
+  output.height = height
+  const context = output.getContext('2d')
+  if (!context) throw new Error('Could not create a 2D canvas for the still')
+  if (!transparent) {
+    context.fillStyle = backgroundColor
+    context.fillRect(0, 0, width, height)
+  }
+
+  const tile = getTileLimit(renderer, maxTileSize)
+  const tileWidth = Math.min(tile, width)
+  const tileHeight = Math.min(tile, height)
+  renderer.setPixelRatio(1)
+  renderer.setSize(tileWidth, tileHeight, false)
+
+  if (camera instanceof THREE.PerspectiveCamera) camera.aspect = width / height
+  for (let y = 0; y < height; y += tileHeight) {
+    for (let x = 0; x < width; x += tileWidth) {
+      // Edge tiles render past the image and are cropped when copied
+      camera.setViewOffset(width, height, x, y, tileWidth, tileHeight)
+      camera.updateMatrixWorld()
+      renderer.render(scene, camera)
+      const copyWidth = Math.min(tileWidth, width - x)
+      const copyHeight = Math.min(tileHeight, height - y)
+      context.drawImage(renderer.domElement, 0, 0, copyWidth, copyHeight, x, y, copyWidth, copyHeight)
+    }
+  }
+
+  return output
+}
+
+const toPngBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the still as PNG'))), 'image/png')
+})
+
+const pointCamera = (camera: ExportCamera, view: CameraView) => {
+  camera.position.set(...view.position)
+  camera.lookAt(...view.target)
+}
+
+/**
+ * PNG of the scene from the camera's current view
+ */
+export const renderStill = async (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: ExportCamera,
+  options: StillExportOptions
+): Promise<Blob> => {
+  const canvas = withExportState(renderer, scene, camera, Boolean(options.transparent), () => {
+    return renderToCanvas(renderer, scene, camera, options)
+  })
+  return toPngBlob(canvas)
+}
+
+/**
+ * ZIP with a PNG from each camera preset, named
+ * `<name>-<preset>-<width>x<height>.png`
+ */
+export const renderPresetStills = async (
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: ExportCamera,
+  presets: Record<string, CameraView>, // e.g. ANGLE_PRESETS
+  name: string,
+  options: StillExportOptions
+): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {}
+
+  // One preset at a time so only one full-size canvas is alive
+  for (const [key, preset] of Object.entries(presets)) {
+    const canvas = withExportState(renderer, scene, camera, Boolean(options.transparent), () => {
+      pointCamera(camera, preset)
+      return renderToCanvas(renderer, scene, camera, options)
+    })
+    const png = await toPngBlob(canvas)
+    files[`${name}-${key}-${options.width}x${options.height}.png`] = new Uint8Array(await png.arrayBuffer())
+  }
+
+  // PNGs are already compressed
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' })
+}
+
+// Lowercase, hyphenated, safe in any filesystem
+export const toFileName = (name: string) =>
+  name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'necklace'
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
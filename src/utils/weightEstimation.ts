@@ -0,0 +1,175 @@
+import * as THREE from 'three'
+import { CHARM_MILLIMETRES_PER_UNIT, MILLIMETRES_PER_UNIT } from '../types'
+import type { Charm, JewelryMaterial, MaterialType, Necklace, NecklaceBase } from '../types'
+import { createFallbackCharm, createFallbackNecklace } from './modelFallbacks'
+import { CARAT_GRAMS } from './gemCuts'
+import { findMaterialData } from './materialDatabase'
+import { computeGeometryVolume, type GeometryVolume } from './geometryVolume'
+import { isShownAtLevel } from './levelOfDetail'
+
+// Densities in g/cm³, for materials not in the material database
+export const DENSITY_BY_TYPE: Record<MaterialType, number> = {
+  metal: 10.5,
+  gemstone: 3.5,
+  pearl: 2.7,
+  fabric: 1.3,
+  leather: 0.9,
+}
+
+const CUBIC_MILLIMETRES_PER_CM3 = 1000
+
+export interface WeightEstimate {
+  volume: number // mm³
+  weight: number // Grams
+  closed: boolean // False if any mesh has holes, making the volume approximate
+}
+
+export const getMaterialDensity = (material: JewelryMaterial) =>
+  findMaterialData(material)?.density ?? DENSITY_BY_TYPE[material.type]
+
+/**
+ * Volume of every mesh under an object, in scene units³, including the
+ * object's own transform. Meshes sharing a geometry (chain links) are
+ * only measured once.
+ */
+export const computeObjectVolume = (object: THREE.Object3D): GeometryVolume => {
+  object.updateWorldMatrix(true, true)
+  const toParent = object.parent ? object.parent.matrixWorld.clone().invert() : new THREE.Matrix4()
+  const measured = new Map<THREE.BufferGeometry, GeometryVolume>()
+  const matrix = new THREE.Matrix4()
+  const instanceMatrix = new THREE.Matrix4()
+  let volume = 0
+  let closed = true
+
+  object.traverse((child) => {
+    // Coarser stand-ins for the same parts don't add to the volume
+    if (!(child instanceof THREE.Mesh) || !isShownAtLevel(child, 0)) return
+    let geometryVolume = measured.get(child.geometry)
+    if (!geometryVolume) {
+      geometryVolume = computeGeometryVolume(child.geometry)
+      measured.set(child.geometry, geometryVolume)
+    }
+    // Scaling multiplies volume by the transform's determinant
+    matrix.multiplyMatrices(toParent, child.matrixWorld)
+    if (child instanceof THREE.InstancedMesh) {
+      for (let i = 0; i < child.count; i++) {
+        child.getMatrixAt(i, instanceMatrix)
+        volume += geometryVolume.volume * Math.abs(matrix.determinant() * instanceMatrix.determinant())
+      }
+    } else {
+      volume += geometryVolume.volume * Math.abs(matrix.determinant())
+    }
+    closed &&= geometryVolume.closed
+  })
+
+  return { volume, closed }
+}
+
+/**
+ * Weight of an object in a material. Bases are modelled at real size;
+ * charms pass their own scale (see CHARM_MILLIMETRES_PER_UNIT).
+ */
+export const estimateWeight = (
+  object: THREE.Object3D,
+  material: JewelryMaterial,
+  millimetresPerUnit: number = MILLIMETRES_PER_UNIT
+): WeightEstimate => {
+  const { volume, closed } = computeObjectVolume(object)
+  const cubicMillimetres = volume * Math.pow(millimetresPerUnit, 3)
+  return {
+    volume: cubicMillimetres,
+    weight: (cubicMillimetres / CUBIC_MILLIMETRES_PER_CM3) * getMaterialDensity(material),
+    closed,
+  }
+}
+
+const disposeGeometries = (object: THREE.Object3D) => {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.Line) child.geometry.dispose()
+  })
+}
+
+// Procedural stand-ins are the same for every charm of a type, so measure each once
+const fallbackCharmVolumes = new Map<Charm['type'], GeometryVolume>()
+
+/**
+ * Weight of a charm's procedural stand-in, at the real size it stands for
+ * scaled by charm.size. Pass the loaded model to measure that instead.
+ * Cut stones weigh their carats; their size is set from the weight, not
+ * the other way round.
+ */
+export const estimateCharmWeight = (charm: Charm, model?: THREE.Object3D | null): WeightEstimate => {
+  const millimetresPerUnit = CHARM_MILLIMETRES_PER_UNIT * charm.size
+  if (model) return estimateWeight(model, charm.material, millimetresPerUnit)
+
+  if (charm.gem) {
+    const weight = charm.gem.carat * CARAT_GRAMS
+    return {
+      volume: (weight / getMaterialDensity(charm.material)) * CUBIC_MILLIMETRES_PER_CM3,
+      weight,
+      closed: true,
+    }
+  }
+
+  let measured = fallbackCharmVolumes.get(charm.type)
+  if (!measured) {
+    const fallback = createFallbackCharm(charm.type)
+    measured = computeObjectVolume(fallback)
+    disposeGeometries(fallback)
+    fallbackCharmVolumes.set(charm.type, measured)
+  }
+
+  const volume = measured.volume * Math.pow(millimetresPerUnit, 3)
+  return {
+    volume,
+    weight: (volume / CUBIC_MILLIMETRES_PER_CM3) * getMaterialDensity(charm.material),
+    closed: measured.closed,
+  }
+}
+
+/**
+ * Weight of a necklace base: its procedural chain, cord or strand, or the
+ * loaded model when given
+ */
+export const estimateBaseWeight = (base: NecklaceBase, model?: THREE.Object3D | null): WeightEstimate => {
+  if (model) return estimateWeight(model, base.material)
+
+  const fallback = createFallbackNecklace(base.type, base.length, {
+    chainStyle: base.chainStyle,
+    linkGauge: base.linkGauge,
+    linkLength: base.linkLength,
+  })
+  const estimate = estimateWeight(fallback, base.material)
+  disposeGeometries(fallback)
+  return estimate
+}
+
+export interface NecklaceWeights {
+  base: WeightEstimate
+  charms: WeightEstimate[] // In Necklace.charms order
+  total: number // Grams
+}
+
+export const estimateNecklaceWeights = (
+  necklace: Necklace,
+  models: { base?: THREE.Object3D | null; charms?: Record<string, THREE.Object3D> } = {}
+): NecklaceWeights => {
+  const base = estimateBaseWeight(necklace.base, models.base)
+  const charms = necklace.charms.map(({ charm }) => estimateCharmWeight(charm, models.charms?.[charm.id]))
+  return {
+    base,
+    charms,
+    total: charms.reduce((sum, estimate) => sum + estimate.weight, base.weight),
+  }
+}
+
+/**
+ * Necklace with each charm's weight set from its estimate
+ */
+export const applyWeightEstimates = (necklace: Necklace, weights: NecklaceWeights): Necklace => ({
+  ...necklace,
+  charms: necklace.charms.map((placement, index) => ({
+    ...placement,
+    charm: { ...placement.charm, weight: weights.charms[index].weight },
+  })),
+})